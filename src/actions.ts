@@ -0,0 +1,189 @@
+/**
+ * Action link server
+ * Notifications can carry signed, expiring links that abort a session or send it a short reply.
+ * Opening a link only shows a confirmation page and the action runs once that page is submitted,
+ * so link previews and mail scanners can't trigger it. Each link can be used once.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type { ActionsConfig } from "./config.ts";
+import type { SSEClient } from "./sse-client.ts";
+import type { Notification, NotificationAction, NotificationType } from "./providers/index.ts";
+import { escapeHtml } from "./providers/format.ts";
+
+type SessionAction = "abort" | "reply";
+
+// Idle and failed sessions can be nudged to continue; anything still running can be stopped
+const ACTIONS: Record<NotificationType, SessionAction[]> = {
+  idle: ["reply"],
+  busy: ["abort"],
+  retry: ["abort"],
+  question: ["abort"],
+  permission: ["abort"],
+  error: ["reply"],
+};
+
+interface ActionClaims {
+  action: SessionAction;
+  /** Name of the OpenCode server the session runs on */
+  server: string;
+  sessionId: string;
+  directory: string;
+  expiresAt: number;
+  /** Identifies the link so it can only be used once */
+  nonce: string;
+}
+
+export class ActionServer {
+  private readonly config: ActionsConfig;
+  // Clients for each OpenCode server, by server name
+  private readonly clients: Map<string, SSEClient>;
+  // Nonces of links already used, until they expire
+  private readonly used = new Map<string, number>();
+  private server: Bun.Server<undefined> | null = null;
+
+  constructor(config: ActionsConfig, clients: Map<string, SSEClient>) {
+    this.config = config;
+    this.clients = clients;
+  }
+
+  start(): void {
+    this.server = Bun.serve({
+      port: this.config.port,
+      hostname: this.config.hostname,
+      fetch: (request) => this.handle(request),
+    });
+    console.log(`Action server listening on ${this.config.hostname}:${this.server.port}`);
+  }
+
+  stop(): void {
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  /**
+   * Signed links for the actions that make sense for a notification
+   */
+  createLinks(notification: Notification): NotificationAction[] {
+    return ACTIONS[notification.type].map((action) => ({
+      label: this.getLabel(action),
+      url: this.createLink({
+        action,
+        server: notification.server,
+        sessionId: notification.sessionId,
+        directory: notification.projectDirectory,
+        expiresAt: Date.now() + this.config.ttlMs,
+        nonce: crypto.randomUUID(),
+      }),
+    }));
+  }
+
+  private getLabel(action: SessionAction): string {
+    return action === "abort" ? "Abort session" : `Reply "${this.config.replyText}"`;
+  }
+
+  private createLink(claims: ActionClaims): string {
+    const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+    return `${this.config.publicUrl}/action/${payload}.${this.sign(payload)}`;
+  }
+
+  private sign(payload: string): string {
+    return createHmac("sha256", this.config.secret).update(payload).digest("base64url");
+  }
+
+  /**
+   * Check a link's signature and expiry, returning its claims if it is valid
+   */
+  private verify(token: string): ActionClaims | null {
+    const [payload, signature] = token.split(".");
+    if (!payload || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return null;
+    }
+
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as ActionClaims;
+    return claims.expiresAt > Date.now() ? claims : null;
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const match = /^\/action\/([^/]+)$/.exec(new URL(request.url).pathname);
+    if (!match) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const now = Date.now();
+    for (const [nonce, expiresAt] of this.used) {
+      if (expiresAt <= now) {
+        this.used.delete(nonce);
+      }
+    }
+
+    const claims = this.verify(match[1]!);
+    if (!claims) {
+      return renderPage("Link expired", "<p>This link is invalid or has expired.</p>", 403);
+    }
+
+    if (this.used.has(claims.nonce)) {
+      return renderPage("Already done", "<p>This link has already been used.</p>", 410);
+    }
+
+    const client = this.clients.get(claims.server);
+    if (!client) {
+      return renderPage("Unknown server", "<p>The server this link was created for is no longer monitored.</p>", 404);
+    }
+
+    const label = this.getLabel(claims.action);
+    const target = `session ${claims.sessionId} in ${claims.directory} on ${claims.server}`;
+
+    if (request.method === "GET") {
+      return renderPage(
+        label,
+        `<p>${escapeHtml(label)} for ${escapeHtml(target)}?</p>` +
+          `<form method="post"><button type="submit">${escapeHtml(label)}</button></form>`
+      );
+    }
+
+    if (request.method !== "POST") {
+      return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, POST" } });
+    }
+
+    // Mark the link used before acting, so a double submit can't run it twice
+    this.used.set(claims.nonce, claims.expiresAt);
+    try {
+      if (claims.action === "abort") {
+        await client.abortSession(claims.sessionId, claims.directory);
+      } else {
+        await client.sendPrompt(claims.sessionId, claims.directory, this.config.replyText);
+      }
+    } catch (error) {
+      this.used.delete(claims.nonce);
+      console.error(`Action ${claims.action} for session ${claims.sessionId} failed:`, error);
+      return renderPage("Failed", `<p>Could not ${escapeHtml(label.toLowerCase())}. Try again later.</p>`, 502);
+    }
+
+    console.log(`Action ${claims.action} performed for session ${claims.sessionId}`);
+    return renderPage("Done", `<p>${escapeHtml(label)}: done for ${escapeHtml(target)}.</p>`);
+  }
+}
+
+function renderPage(title: string, bodyHtml: string, status = 200): Response {
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} - oc-notifier</title>
+</head>
+<body style="font-family:sans-serif;max-width:32rem;margin:2rem auto;padding:0 1rem">
+<h2>${escapeHtml(title)}</h2>
+${bodyHtml}
+</body>
+</html>`;
+
+  return new Response(html, { status, headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
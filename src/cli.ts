@@ -0,0 +1,311 @@
+/**
+ * CLI subcommands for checking a setup without waiting for a real session:
+ * validate the config, send test or custom notifications, and list sessions
+ */
+
+import { ConfigError, loadConfig, type Config, type OpenCodeConfig, type ProviderConfig } from "./config.ts";
+import { SSEClient, type SessionStatus } from "./sse-client.ts";
+import {
+  createProvider,
+  NOTIFICATION_TYPES,
+  ProviderError,
+  type Notification,
+  type NotificationType,
+} from "./providers/index.ts";
+
+export interface CommandOptions {
+  provider?: string;
+  type?: string;
+  server?: string;
+  session?: string;
+  title?: string;
+  directory?: string;
+  message?: string;
+}
+
+export const COMMANDS = ["validate", "test", "sessions", "send"] as const;
+
+type Command = (typeof COMMANDS)[number];
+
+interface SendResult {
+  label: string;
+  ok: boolean;
+  status?: number;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Run a subcommand, returning the process exit code
+ */
+export async function runCommand(command: string, configPath: string, options: CommandOptions): Promise<number> {
+  if (!(COMMANDS as readonly string[]).includes(command)) {
+    console.error(`Unknown command: ${command} (expected one of: ${COMMANDS.join(", ")})`);
+    return 2;
+  }
+
+  if (command === "validate") {
+    return validateCommand(configPath);
+  }
+
+  let config: Config;
+  try {
+    config = await loadConfig(configPath);
+  } catch (error) {
+    console.error((error as Error).message);
+    return 1;
+  }
+
+  try {
+    return await COMMAND_HANDLERS[command as Exclude<Command, "validate">](config, options);
+  } catch (error) {
+    // Invalid options
+    console.error((error as Error).message);
+    return 2;
+  }
+}
+
+const COMMAND_HANDLERS: Record<Exclude<Command, "validate">, (config: Config, options: CommandOptions) => Promise<number>> = {
+  test: testCommand,
+  sessions: sessionsCommand,
+  send: sendCommand,
+};
+
+async function validateCommand(configPath: string): Promise<number> {
+  let config: Config;
+  try {
+    config = await loadConfig(configPath);
+  } catch (error) {
+    const errors = error instanceof ConfigError ? error.errors : [(error as Error).message];
+    console.error(`${configPath} is invalid:`);
+    for (const message of errors) {
+      console.error(`  - ${message}`);
+    }
+    return 1;
+  }
+
+  const enabled = config.providers.filter((p) => p.enabled).length;
+  console.log(
+    `${configPath} is valid: ${config.opencode.length} server(s), ${config.providers.length} provider(s) (${enabled} enabled)`
+  );
+  return 0;
+}
+
+/**
+ * Send a sample idle or question notification to each selected provider
+ */
+async function testCommand(config: Config, options: CommandOptions): Promise<number> {
+  const type = options.type ?? "idle";
+  if (type !== "idle" && type !== "question") {
+    throw new Error(`--type must be idle or question for test, got "${type}"`);
+  }
+
+  const server = selectServer(config, options.server);
+  const notification: Notification = {
+    ...describeSession(server, "ses_oc_notifier_test", "oc-notifier test", options.directory),
+    type,
+    question: type === "question" ? "This is a test question from oc-notifier. Did it arrive?" : undefined,
+    summary: type === "idle" ? { excerpt: "This is a test notification from oc-notifier." } : undefined,
+  };
+
+  return sendToProviders(config, options.provider, notification);
+}
+
+/**
+ * Send a notification with custom content to each selected provider
+ */
+async function sendCommand(config: Config, options: CommandOptions): Promise<number> {
+  const type = (options.type ?? "idle") as NotificationType;
+  if (!NOTIFICATION_TYPES.includes(type)) {
+    throw new Error(`--type must be one of: ${NOTIFICATION_TYPES.join(", ")}`);
+  }
+
+  const server = selectServer(config, options.server);
+  const sessionId = options.session ?? "ses_oc_notifier_cli";
+  const message = options.message ?? "Sent from the oc-notifier CLI";
+  const notification: Notification = {
+    ...describeSession(server, sessionId, options.title ?? sessionId, options.directory),
+    type,
+    ...getMessageFields(type, message),
+  };
+
+  return sendToProviders(config, options.provider, notification);
+}
+
+/**
+ * Put a message where each notification type shows its detail text
+ */
+function getMessageFields(type: NotificationType, message: string): Partial<Notification> {
+  switch (type) {
+    case "idle":
+    case "busy":
+      return { summary: { excerpt: message } };
+    case "retry":
+      return { retry: { attempt: 1, message } };
+    case "question":
+      return { question: message };
+    case "permission":
+      return { permission: { id: crypto.randomUUID(), tool: "oc-notifier", patterns: [], title: message } };
+    case "error":
+      return { error: { name: "Error", message } };
+  }
+}
+
+/**
+ * List the sessions on each server with their status, project and parent
+ */
+async function sessionsCommand(config: Config, options: CommandOptions): Promise<number> {
+  const servers = options.server ? [selectServer(config, options.server)] : config.opencode;
+  let failed = false;
+
+  for (const server of servers) {
+    const client = new SSEClient(server);
+    const projects = await client.fetchProjects();
+    if (!projects) {
+      console.error(`Could not list projects on ${server.name}`);
+      failed = true;
+      continue;
+    }
+
+    const rows: string[][] = [];
+    for (const project of projects) {
+      const [sessions, statuses] = await Promise.all([
+        client.fetchSessions(project.worktree),
+        client.fetchSessionStatuses(project.worktree),
+      ]);
+      if (!sessions) {
+        failed = true;
+        continue;
+      }
+      for (const session of sessions) {
+        rows.push([
+          formatStatus(statuses?.[session.id]),
+          session.id,
+          session.title,
+          project.worktree,
+          session.parentSessionID ?? "-",
+        ]);
+      }
+    }
+
+    console.log(`${server.name} (${server.baseUrl}): ${rows.length} session(s)`);
+    if (rows.length > 0) {
+      printTable(["STATUS", "SESSION", "TITLE", "PROJECT", "PARENT"], rows);
+    }
+  }
+
+  return failed ? 1 : 0;
+}
+
+function formatStatus(status: SessionStatus | undefined): string {
+  if (!status) {
+    return "idle";
+  }
+  return status.type === "retry" ? `retry (attempt ${status.attempt})` : status.type;
+}
+
+function printTable(header: string[], rows: string[][]): void {
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i]!.length)));
+  for (const row of [header, ...rows]) {
+    console.log(`  ${row.map((cell, i) => cell.padEnd(widths[i]!)).join("  ").trimEnd()}`);
+  }
+}
+
+function selectServer(config: Config, name: string | undefined): OpenCodeConfig {
+  if (name === undefined) {
+    return config.opencode[0]!;
+  }
+  const server = config.opencode.find((s) => s.name === name);
+  if (!server) {
+    throw new Error(`Unknown server "${name}" (expected one of: ${config.opencode.map((s) => s.name).join(", ")})`);
+  }
+  return server;
+}
+
+function describeSession(
+  server: OpenCodeConfig,
+  sessionId: string,
+  sessionTitle: string,
+  directory = process.cwd()
+): Omit<Notification, "type"> {
+  const projectId = "";
+  return {
+    server: server.name,
+    sessionId,
+    sessionTitle,
+    projectId,
+    projectDirectory: directory,
+    desktopUrl: `${server.desktopBaseUrl.replace(/\/$/, "")}/${projectId}/session/${sessionId}`,
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Providers picked by --provider: a position in the providers list (even if disabled) or a type,
+ * or every enabled provider when not given
+ */
+function selectProviders(config: Config, selector: string | undefined): Array<{ label: string; config: ProviderConfig }> {
+  const all = config.providers.map((provider, index) => ({ label: `${index}:${provider.type}`, config: provider }));
+
+  if (selector === undefined) {
+    return all.filter(({ config }) => config.enabled);
+  }
+
+  if (/^\d+$/.test(selector)) {
+    const provider = all[Number(selector)];
+    if (!provider) {
+      throw new Error(`There is no provider at index ${selector} (${all.length} configured)`);
+    }
+    return [provider];
+  }
+
+  const matching = all.filter(({ config }) => config.type === selector);
+  if (matching.length === 0) {
+    throw new Error(`No provider of type "${selector}" is configured`);
+  }
+  return matching;
+}
+
+/**
+ * Send once to each provider, without retries, filters or schedules, and report how it went
+ */
+async function sendToProviders(config: Config, selector: string | undefined, notification: Notification): Promise<number> {
+  const providers = selectProviders(config, selector);
+  if (providers.length === 0) {
+    console.error("No enabled providers to send to");
+    return 1;
+  }
+
+  const results: SendResult[] = [];
+  for (const { label, config: providerConfig } of providers) {
+    const provider = createProvider(providerConfig);
+    const start = performance.now();
+    try {
+      const status = await provider.send(notification);
+      results.push({ label, ok: true, status, latencyMs: performance.now() - start });
+    } catch (error) {
+      results.push({
+        label,
+        ok: false,
+        status: error instanceof ProviderError ? error.status : undefined,
+        latencyMs: performance.now() - start,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  printTable(
+    ["PROVIDER", "RESULT", "STATUS", "LATENCY"],
+    results.map((result) => [
+      result.label,
+      result.ok ? "ok" : "failed",
+      result.status?.toString() ?? "-",
+      `${Math.round(result.latencyMs)}ms`,
+    ])
+  );
+  for (const result of results.filter((r) => r.error)) {
+    console.error(`${result.label}: ${result.error}`);
+  }
+
+  return results.every((result) => result.ok) ? 0 : 1;
+}
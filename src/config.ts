@@ -2,86 +2,371 @@
  * Configuration loading and validation for oc-notifier
  */
 
+import { NOTIFICATION_TYPES, type NotificationType } from "./providers/types.ts";
+import { BATCH_TEMPLATE_PLACEHOLDERS, TEMPLATE_PLACEHOLDERS, getPlaceholders } from "./providers/format.ts";
+import { applyEnvOverrides, resolveSecrets } from "./secrets.ts";
+
+/**
+ * sse: follow the event stream
+ * poll: fetch session statuses, questions and permission requests on an interval
+ * auto: follow the event stream, polling while it keeps failing
+ */
+export type OpenCodeMode = "sse" | "poll" | "auto";
+
 export interface OpenCodeConfig {
+  /** Identifies the server in notifications and filters (default: the host of baseUrl) */
+  name: string;
   baseUrl: string;
   desktopBaseUrl: string;
   username?: string;
   password?: string;
+  /** Reconnect when the SSE stream sends nothing for this long, 0 to wait forever (default: 90000) */
+  heartbeatTimeoutMs: number;
+  /** How session changes are followed (default: "sse") */
+  mode: OpenCodeMode;
+  /** Delay between polls in poll and auto mode (default: 5000) */
+  pollIntervalMs: number;
+  /** In auto mode, start polling after this many SSE connections in a row fail (default: 3) */
+  pollFallbackAfter: number;
 }
 
-export interface DiscordProviderConfig {
-  type: "discord";
+export interface RetryConfig {
+  /** Total attempts including the first one (1 disables retries) */
+  maxAttempts: number;
+  /** Delay before the first retry, doubled on each further attempt */
+  initialDelayMs: number;
+  /** Upper bound for the backoff delay */
+  maxDelayMs: number;
+}
+
+export interface FilterRule {
+  /** Globs matched against the project directory (a leading ~ expands to the home directory) */
+  directories?: string[];
+  projectIds?: string[];
+  /** Names of the OpenCode servers the session runs on */
+  servers?: string[];
+  /** Regular expression matched against the session title */
+  sessionTitle?: string;
+  types?: NotificationType[];
+}
+
+export interface ProviderFilters {
+  /** Only notifications matching at least one of these rules are sent */
+  include?: FilterRule[];
+  /** Notifications matching any of these rules are never sent */
+  exclude?: FilterRule[];
+}
+
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+export interface TimeWindow {
+  /** Days the window starts on (default: every day) */
+  days?: Weekday[];
+  /** Start time as "HH:MM" */
+  start: string;
+  /** End time as "HH:MM"; an end before the start runs past midnight */
+  end: string;
+}
+
+export interface ScheduleConfig {
+  /** IANA timezone the windows are expressed in (default: system timezone) */
+  timezone?: string;
+  /** Notifications are only delivered inside these windows (default: always) */
+  active?: TimeWindow[];
+  /** Notifications are never delivered inside these windows */
+  quiet?: TimeWindow[];
+  /** Drop notifications outside the schedule, or hold them and send a summary once it opens */
+  outside: "drop" | "hold";
+}
+
+export interface RateLimitConfig {
+  /** Sustained number of sends allowed per minute */
+  maxPerMinute: number;
+  /** Sends allowed back to back before the limit kicks in (default: 1) */
+  burst: number;
+}
+
+export interface DigestConfig {
+  /** Notifications arriving within this window after the first one are sent as one message */
+  windowMs: number;
+}
+
+/** A single template, or one per notification type (types left out use the default) */
+export type TypedTemplate = string | Partial<Record<NotificationType, string>>;
+
+export interface TemplateField {
+  name: string;
+  value: string;
+}
+
+export interface TemplateConfig {
+  title?: TypedTemplate;
+  /** Status line, available to other templates as {{status}} */
+  status?: TypedTemplate;
+  /** Fields shown by providers that display structured details */
+  fields?: TemplateField[];
+  /** Title of batched messages; only {{count}} is available */
+  batchTitle?: string;
+}
+
+/** Settings shared by every provider type */
+export interface BaseProviderConfig {
+  /** Identifies the provider in the outbox and metrics (default: derived from its settings) */
+  id?: string;
   enabled: boolean;
+  retry: RetryConfig;
+  filters?: ProviderFilters;
+  schedule?: ScheduleConfig;
+  rateLimit?: RateLimitConfig;
+  digest?: DigestConfig;
+  /** Message templates, merged over the global ones */
+  templates?: TemplateConfig;
+}
+
+export interface DiscordProviderConfig extends BaseProviderConfig {
+  type: "discord";
   webhookUrl: string;
 }
 
-export interface WebhookProviderConfig {
+export interface WebhookProviderConfig extends BaseProviderConfig {
   type: "webhook";
-  enabled: boolean;
   url: string;
   method?: "GET" | "POST" | "PUT";
   headers?: Record<string, string>;
+  /** JSON body sent instead of the default payload, with placeholders rendered in every string */
+  bodyTemplate?: unknown;
+  /** Shared secret used to sign requests with HMAC-SHA256 */
+  secret?: string;
 }
 
-export interface MSTeamsProviderConfig {
+export interface MSTeamsProviderConfig extends BaseProviderConfig {
   type: "msteams";
-  enabled: boolean;
   webhookUrl: string;
 }
 
-export type ProviderConfig = DiscordProviderConfig | WebhookProviderConfig | MSTeamsProviderConfig;
+export interface SlackProviderConfig extends BaseProviderConfig {
+  type: "slack";
+  /** Incoming webhook URL (used when botToken is not set) */
+  webhookUrl?: string;
+  /** Bot token for chat.postMessage (requires channel) */
+  botToken?: string;
+  /** Channel ID or name to post to when using botToken */
+  channel?: string;
+}
+
+export interface NtfyProviderConfig extends BaseProviderConfig {
+  type: "ntfy";
+  /** ntfy server URL (default: https://ntfy.sh) */
+  serverUrl: string;
+  topic: string;
+  /** Access token for protected topics */
+  token?: string;
+}
+
+export interface GotifyProviderConfig extends BaseProviderConfig {
+  type: "gotify";
+  serverUrl: string;
+  /** Application token */
+  token?: string;
+}
+
+export interface TelegramProviderConfig extends BaseProviderConfig {
+  type: "telegram";
+  botToken: string;
+  /** Chat IDs (or @channel usernames) to send to */
+  chatIds: Array<string | number>;
+  /** Bot API base URL (default: https://api.telegram.org) */
+  apiBaseUrl?: string;
+}
+
+export interface EmailProviderConfig extends BaseProviderConfig {
+  type: "email";
+  host: string;
+  /** SMTP port (default: 465 for "tls", 587 otherwise) */
+  port?: number;
+  /** Connection security (default: "starttls") */
+  security?: "starttls" | "tls" | "none";
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export interface DesktopProviderConfig extends BaseProviderConfig {
+  type: "desktop";
+  /** Application name shown by the notification server (default: oc-notifier) */
+  appName?: string;
+  /** Command used to open the desktop URL when clicked (default: xdg-open) */
+  openCommand?: string;
+}
+
+export type ProviderConfig =
+  | DiscordProviderConfig
+  | WebhookProviderConfig
+  | MSTeamsProviderConfig
+  | SlackProviderConfig
+  | NtfyProviderConfig
+  | GotifyProviderConfig
+  | TelegramProviderConfig
+  | EmailProviderConfig
+  | DesktopProviderConfig;
+
+export interface WatchdogConfig {
+  /** Notify when a session's retry attempt exceeds this number */
+  maxRetryAttempts?: number;
+  /** Notify when a session has been busy without interruption for longer than this */
+  maxBusyMs?: number;
+}
+
+export interface ActionsConfig {
+  /** Port for the action link server */
+  port: number;
+  /** Interface to listen on (default: 0.0.0.0) */
+  hostname: string;
+  /** URL the server is reachable at from wherever notifications are read, used to build links */
+  publicUrl: string;
+  /** Secret used to sign action links */
+  secret: string;
+  /** How long action links stay valid (default: 24 hours) */
+  ttlMs: number;
+  /** Text sent by the reply action (default: "continue") */
+  replyText: string;
+}
+
+export interface HealthConfig {
+  /** Port for the health and metrics server */
+  port: number;
+  /** Interface to listen on (default: 0.0.0.0) */
+  hostname: string;
+}
+
+export interface OutboxConfig {
+  /** Path to the SQLite database file */
+  path: string;
+  /** Notifications older than this are not redelivered (default: 24 hours) */
+  maxAgeMs: number;
+}
 
 export interface Config {
-  opencode: OpenCodeConfig;
+  /** OpenCode servers to monitor; a single object in the config file is read as one server */
+  opencode: OpenCodeConfig[];
   providers: ProviderConfig[];
+  /** Message templates applied to every provider */
+  templates?: TemplateConfig;
+  /** Signed links to abort or reply to a session from a notification (disabled when omitted) */
+  actions?: ActionsConfig;
+  /** Alerts for sessions stuck retrying or busy for too long (disabled when omitted) */
+  watchdog?: WatchdogConfig;
+  /** Persist notifications so they survive restarts (disabled when omitted) */
+  outbox?: OutboxConfig;
+  /** Health checks and Prometheus metrics over HTTP (disabled when omitted) */
+  health?: HealthConfig;
   /** Delay in ms before sending notification after idle (default: 3000). Cancels if session goes busy. */
   debounceMs: number;
+  /** Sessions that went idle while disconnected are still notified if they changed this recently (default: 10 minutes) */
+  reconcileMaxAgeMs: number;
+}
+
+const OPENCODE_MODES: OpenCodeMode[] = ["sse", "poll", "auto"];
+
+function validateOpenCodeConfigs(config: unknown): OpenCodeConfig[] {
+  if (!Array.isArray(config)) {
+    return [validateOpenCodeConfig(config, "opencode", false)];
+  }
+
+  if (config.length === 0) {
+    throw new Error("opencode must list at least one server");
+  }
+
+  const servers = config.map((server, i) => validateOpenCodeConfig(server, `opencode[${i}]`, true));
+  const names = new Set<string>();
+  for (const server of servers) {
+    if (names.has(server.name)) {
+      throw new Error(`opencode server name "${server.name}" is used more than once`);
+    }
+    names.add(server.name);
+  }
+
+  return servers;
 }
 
-function validateOpenCodeConfig(config: unknown): OpenCodeConfig {
+function validateOpenCodeConfig(config: unknown, name: string, requireName: boolean): OpenCodeConfig {
   if (typeof config !== "object" || config === null) {
-    throw new Error("opencode config must be an object");
+    throw new Error(`${name} config must be an object`);
   }
 
   const obj = config as Record<string, unknown>;
 
-  if (typeof obj.baseUrl !== "string" || !obj.baseUrl) {
-    throw new Error("opencode.baseUrl is required and must be a string");
+  if (typeof obj.baseUrl !== "string" || !URL.canParse(obj.baseUrl)) {
+    throw new Error(`${name}.baseUrl is required and must be a URL`);
   }
 
   if (typeof obj.desktopBaseUrl !== "string" || !obj.desktopBaseUrl) {
-    throw new Error("opencode.desktopBaseUrl is required and must be a string");
+    throw new Error(`${name}.desktopBaseUrl is required and must be a string`);
+  }
+
+  if (obj.name !== undefined && (typeof obj.name !== "string" || !obj.name)) {
+    throw new Error(`${name}.name must be a non-empty string if provided`);
+  }
+
+  if (requireName && obj.name === undefined) {
+    throw new Error(`${name}.name is required when opencode is a list of servers`);
   }
 
   if (obj.username !== undefined && typeof obj.username !== "string") {
-    throw new Error("opencode.username must be a string if provided");
+    throw new Error(`${name}.username must be a string if provided`);
   }
 
   if (obj.password !== undefined && typeof obj.password !== "string") {
-    throw new Error("opencode.password must be a string if provided");
+    throw new Error(`${name}.password must be a string if provided`);
+  }
+
+  const heartbeatTimeoutMs = obj.heartbeatTimeoutMs ?? 90000;
+  if (typeof heartbeatTimeoutMs !== "number" || heartbeatTimeoutMs < 0) {
+    throw new Error(`${name}.heartbeatTimeoutMs must be a non-negative number`);
+  }
+
+  const mode = obj.mode ?? "sse";
+  if (!OPENCODE_MODES.includes(mode as OpenCodeMode)) {
+    throw new Error(`${name}.mode must be one of: ${OPENCODE_MODES.join(", ")}`);
+  }
+
+  const pollIntervalMs = obj.pollIntervalMs ?? 5000;
+  if (typeof pollIntervalMs !== "number" || pollIntervalMs < 1000) {
+    throw new Error(`${name}.pollIntervalMs must be a number of at least 1000`);
+  }
+
+  const pollFallbackAfter = obj.pollFallbackAfter ?? 3;
+  if (typeof pollFallbackAfter !== "number" || !Number.isInteger(pollFallbackAfter) || pollFallbackAfter < 1) {
+    throw new Error(`${name}.pollFallbackAfter must be a positive integer`);
   }
 
   return {
+    name: (obj.name as string | undefined) ?? new URL(obj.baseUrl).host,
     baseUrl: obj.baseUrl,
     desktopBaseUrl: obj.desktopBaseUrl,
     username: obj.username as string | undefined,
     password: obj.password as string | undefined,
+    heartbeatTimeoutMs,
+    mode: mode as OpenCodeMode,
+    pollIntervalMs,
+    pollFallbackAfter,
   };
 }
 
-function validateDiscordProvider(config: Record<string, unknown>): DiscordProviderConfig {
+function validateDiscordProvider(config: Record<string, unknown>, base: BaseProviderConfig): DiscordProviderConfig {
   if (typeof config.webhookUrl !== "string" || !config.webhookUrl) {
     throw new Error("Discord provider requires webhookUrl");
   }
 
   return {
     type: "discord",
-    enabled: config.enabled === true,
+    ...base,
     webhookUrl: config.webhookUrl,
   };
 }
 
-function validateWebhookProvider(config: Record<string, unknown>): WebhookProviderConfig {
+function validateWebhookProvider(config: Record<string, unknown>, base: BaseProviderConfig): WebhookProviderConfig {
   if (typeof config.url !== "string" || !config.url) {
     throw new Error("Webhook provider requires url");
   }
@@ -99,28 +384,536 @@ function validateWebhookProvider(config: Record<string, unknown>): WebhookProvid
     headers = config.headers as Record<string, string>;
   }
 
+  if (config.bodyTemplate !== undefined) {
+    validateJsonTemplate(config.bodyTemplate, "Webhook provider bodyTemplate");
+  }
+
+  if (config.secret !== undefined && (typeof config.secret !== "string" || !config.secret)) {
+    throw new Error("Webhook provider secret must be a non-empty string");
+  }
+
   return {
     type: "webhook",
-    enabled: config.enabled === true,
+    ...base,
     url: config.url,
     method,
     headers,
+    bodyTemplate: config.bodyTemplate,
+    secret: config.secret as string | undefined,
   };
 }
 
-function validateMSTeamsProvider(config: Record<string, unknown>): MSTeamsProviderConfig {
+function validateMSTeamsProvider(config: Record<string, unknown>, base: BaseProviderConfig): MSTeamsProviderConfig {
   if (typeof config.webhookUrl !== "string" || !config.webhookUrl) {
     throw new Error("MS Teams provider requires webhookUrl");
   }
 
   return {
     type: "msteams",
-    enabled: config.enabled === true,
+    ...base,
     webhookUrl: config.webhookUrl,
   };
 }
 
-function validateProviderConfig(config: unknown, index: number): ProviderConfig {
+function validateSlackProvider(config: Record<string, unknown>, base: BaseProviderConfig): SlackProviderConfig {
+  if (config.webhookUrl !== undefined && (typeof config.webhookUrl !== "string" || !config.webhookUrl)) {
+    throw new Error("Slack provider webhookUrl must be a non-empty string if provided");
+  }
+
+  if (config.botToken !== undefined && (typeof config.botToken !== "string" || !config.botToken)) {
+    throw new Error("Slack provider botToken must be a non-empty string if provided");
+  }
+
+  if (config.channel !== undefined && (typeof config.channel !== "string" || !config.channel)) {
+    throw new Error("Slack provider channel must be a non-empty string if provided");
+  }
+
+  if (!config.webhookUrl && !config.botToken) {
+    throw new Error("Slack provider requires webhookUrl or botToken");
+  }
+
+  if (config.botToken && !config.channel) {
+    throw new Error("Slack provider requires channel when using botToken");
+  }
+
+  return {
+    type: "slack",
+    ...base,
+    webhookUrl: config.webhookUrl as string | undefined,
+    botToken: config.botToken as string | undefined,
+    channel: config.channel as string | undefined,
+  };
+}
+
+function validateNtfyProvider(config: Record<string, unknown>, base: BaseProviderConfig): NtfyProviderConfig {
+  const serverUrl = config.serverUrl ?? "https://ntfy.sh";
+  if (typeof serverUrl !== "string" || !serverUrl) {
+    throw new Error("ntfy provider serverUrl must be a non-empty string if provided");
+  }
+
+  if (typeof config.topic !== "string" || !config.topic) {
+    throw new Error("ntfy provider requires topic");
+  }
+
+  if (config.token !== undefined && (typeof config.token !== "string" || !config.token)) {
+    throw new Error("ntfy provider token must be a non-empty string if provided");
+  }
+
+  return {
+    type: "ntfy",
+    ...base,
+    serverUrl,
+    topic: config.topic,
+    token: config.token as string | undefined,
+  };
+}
+
+function validateGotifyProvider(config: Record<string, unknown>, base: BaseProviderConfig): GotifyProviderConfig {
+  if (typeof config.serverUrl !== "string" || !config.serverUrl) {
+    throw new Error("Gotify provider requires serverUrl");
+  }
+
+  if (config.token !== undefined && (typeof config.token !== "string" || !config.token)) {
+    throw new Error("Gotify provider token must be a non-empty string if provided");
+  }
+
+  return {
+    type: "gotify",
+    ...base,
+    serverUrl: config.serverUrl,
+    token: config.token as string | undefined,
+  };
+}
+
+function validateTelegramProvider(config: Record<string, unknown>, base: BaseProviderConfig): TelegramProviderConfig {
+  if (typeof config.botToken !== "string" || !config.botToken) {
+    throw new Error("Telegram provider requires botToken");
+  }
+
+  if (!Array.isArray(config.chatIds) || config.chatIds.length === 0) {
+    throw new Error("Telegram provider requires a non-empty chatIds array");
+  }
+
+  for (const chatId of config.chatIds) {
+    if ((typeof chatId !== "string" || !chatId) && typeof chatId !== "number") {
+      throw new Error("Telegram provider chatIds must be strings or numbers");
+    }
+  }
+
+  if (config.apiBaseUrl !== undefined && (typeof config.apiBaseUrl !== "string" || !config.apiBaseUrl)) {
+    throw new Error("Telegram provider apiBaseUrl must be a non-empty string if provided");
+  }
+
+  return {
+    type: "telegram",
+    ...base,
+    botToken: config.botToken,
+    chatIds: config.chatIds as Array<string | number>,
+    apiBaseUrl: config.apiBaseUrl as string | undefined,
+  };
+}
+
+function validateEmailProvider(config: Record<string, unknown>, base: BaseProviderConfig): EmailProviderConfig {
+  if (typeof config.host !== "string" || !config.host) {
+    throw new Error("Email provider requires host");
+  }
+
+  if (config.port !== undefined) {
+    if (typeof config.port !== "number" || !Number.isInteger(config.port) || config.port < 1 || config.port > 65535) {
+      throw new Error("Email provider port must be an integer between 1 and 65535");
+    }
+  }
+
+  const security = config.security ?? "starttls";
+  if (security !== "starttls" && security !== "tls" && security !== "none") {
+    throw new Error("Email provider security must be starttls, tls, or none");
+  }
+
+  if (config.username !== undefined && typeof config.username !== "string") {
+    throw new Error("Email provider username must be a string if provided");
+  }
+
+  if (config.password !== undefined && typeof config.password !== "string") {
+    throw new Error("Email provider password must be a string if provided");
+  }
+
+  if (config.password !== undefined && !config.username) {
+    throw new Error("Email provider password requires username");
+  }
+
+  if (typeof config.from !== "string" || !config.from) {
+    throw new Error("Email provider requires from");
+  }
+
+  if (!Array.isArray(config.to) || config.to.length === 0) {
+    throw new Error("Email provider requires a non-empty to array");
+  }
+
+  for (const recipient of config.to) {
+    if (typeof recipient !== "string" || !recipient) {
+      throw new Error("Email provider to must contain only non-empty strings");
+    }
+  }
+
+  return {
+    type: "email",
+    ...base,
+    host: config.host,
+    port: config.port as number | undefined,
+    security,
+    username: config.username as string | undefined,
+    password: config.password as string | undefined,
+    from: config.from,
+    to: config.to as string[],
+  };
+}
+
+function validateDesktopProvider(config: Record<string, unknown>, base: BaseProviderConfig): DesktopProviderConfig {
+  if (config.appName !== undefined && (typeof config.appName !== "string" || !config.appName)) {
+    throw new Error("Desktop provider appName must be a non-empty string if provided");
+  }
+
+  if (config.openCommand !== undefined && (typeof config.openCommand !== "string" || !config.openCommand)) {
+    throw new Error("Desktop provider openCommand must be a non-empty string if provided");
+  }
+
+  return {
+    type: "desktop",
+    ...base,
+    appName: config.appName as string | undefined,
+    openCommand: config.openCommand as string | undefined,
+  };
+}
+
+function validateRetryConfig(config: unknown, index: number): RetryConfig {
+  const retry: RetryConfig = {
+    maxAttempts: 3,
+    initialDelayMs: 1000,
+    maxDelayMs: 30000,
+  };
+
+  if (config === undefined) {
+    return retry;
+  }
+
+  if (typeof config !== "object" || config === null) {
+    throw new Error(`Provider at index ${index} retry must be an object`);
+  }
+
+  const obj = config as Record<string, unknown>;
+
+  if (obj.maxAttempts !== undefined) {
+    if (typeof obj.maxAttempts !== "number" || !Number.isInteger(obj.maxAttempts) || obj.maxAttempts < 1) {
+      throw new Error(`Provider at index ${index} retry.maxAttempts must be a positive integer`);
+    }
+    retry.maxAttempts = obj.maxAttempts;
+  }
+
+  if (obj.initialDelayMs !== undefined) {
+    if (typeof obj.initialDelayMs !== "number" || obj.initialDelayMs < 0) {
+      throw new Error(`Provider at index ${index} retry.initialDelayMs must be a non-negative number`);
+    }
+    retry.initialDelayMs = obj.initialDelayMs;
+  }
+
+  if (obj.maxDelayMs !== undefined) {
+    if (typeof obj.maxDelayMs !== "number" || obj.maxDelayMs < retry.initialDelayMs) {
+      throw new Error(`Provider at index ${index} retry.maxDelayMs must be a number no smaller than initialDelayMs`);
+    }
+    retry.maxDelayMs = obj.maxDelayMs;
+  }
+
+  return retry;
+}
+
+function validateStringArray(value: unknown, name: string): string[] {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || !item)) {
+    throw new Error(`${name} must be an array of non-empty strings`);
+  }
+  return value as string[];
+}
+
+function validateFilterRule(config: unknown, name: string): FilterRule {
+  if (typeof config !== "object" || config === null) {
+    throw new Error(`${name} must be an object`);
+  }
+
+  const obj = config as Record<string, unknown>;
+  const rule: FilterRule = {};
+
+  if (obj.directories !== undefined) {
+    rule.directories = validateStringArray(obj.directories, `${name}.directories`);
+  }
+
+  if (obj.projectIds !== undefined) {
+    rule.projectIds = validateStringArray(obj.projectIds, `${name}.projectIds`);
+  }
+
+  if (obj.servers !== undefined) {
+    rule.servers = validateStringArray(obj.servers, `${name}.servers`);
+  }
+
+  if (obj.sessionTitle !== undefined) {
+    if (typeof obj.sessionTitle !== "string") {
+      throw new Error(`${name}.sessionTitle must be a string`);
+    }
+    try {
+      new RegExp(obj.sessionTitle);
+    } catch (error) {
+      throw new Error(`${name}.sessionTitle is not a valid regular expression: ${(error as Error).message}`);
+    }
+    rule.sessionTitle = obj.sessionTitle;
+  }
+
+  if (obj.types !== undefined) {
+    const types = validateStringArray(obj.types, `${name}.types`);
+    for (const type of types) {
+      if (!(NOTIFICATION_TYPES as readonly string[]).includes(type)) {
+        throw new Error(`${name}.types contains unknown notification type "${type}" (expected one of: ${NOTIFICATION_TYPES.join(", ")})`);
+      }
+    }
+    rule.types = types as NotificationType[];
+  }
+
+  if (Object.keys(rule).length === 0) {
+    throw new Error(`${name} must set at least one of directories, projectIds, servers, sessionTitle, or types`);
+  }
+
+  return rule;
+}
+
+function validateFilters(config: unknown, index: number): ProviderFilters {
+  if (typeof config !== "object" || config === null) {
+    throw new Error(`Provider at index ${index} filters must be an object`);
+  }
+
+  const obj = config as Record<string, unknown>;
+  const filters: ProviderFilters = {};
+
+  for (const key of ["include", "exclude"] as const) {
+    const rules = obj[key];
+    if (rules === undefined) {
+      continue;
+    }
+    if (!Array.isArray(rules)) {
+      throw new Error(`Provider at index ${index} filters.${key} must be an array`);
+    }
+    filters[key] = rules.map((rule, i) => validateFilterRule(rule, `Provider at index ${index} filters.${key}[${i}]`));
+  }
+
+  return filters;
+}
+
+const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+
+function validateTimeWindow(config: unknown, name: string): TimeWindow {
+  if (typeof config !== "object" || config === null) {
+    throw new Error(`${name} must be an object`);
+  }
+
+  const obj = config as Record<string, unknown>;
+
+  for (const key of ["start", "end"] as const) {
+    const value = obj[key];
+    if (typeof value !== "string" || !/^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/.test(value)) {
+      throw new Error(`${name}.${key} must be a time in HH:MM format`);
+    }
+  }
+
+  let days: Weekday[] | undefined;
+  if (obj.days !== undefined) {
+    const values = validateStringArray(obj.days, `${name}.days`);
+    for (const day of values) {
+      if (!WEEKDAYS.includes(day)) {
+        throw new Error(`${name}.days contains unknown day "${day}" (expected one of: ${WEEKDAYS.join(", ")})`);
+      }
+    }
+    days = values as Weekday[];
+  }
+
+  return { days, start: obj.start as string, end: obj.end as string };
+}
+
+function validateSchedule(config: unknown, index: number): ScheduleConfig {
+  const name = `Provider at index ${index} schedule`;
+
+  if (typeof config !== "object" || config === null) {
+    throw new Error(`${name} must be an object`);
+  }
+
+  const obj = config as Record<string, unknown>;
+  const schedule: ScheduleConfig = { outside: "drop" };
+
+  if (obj.timezone !== undefined) {
+    if (typeof obj.timezone !== "string" || !obj.timezone) {
+      throw new Error(`${name}.timezone must be a non-empty string`);
+    }
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: obj.timezone });
+    } catch {
+      throw new Error(`${name}.timezone is not a valid IANA timezone: ${obj.timezone}`);
+    }
+    schedule.timezone = obj.timezone;
+  }
+
+  for (const key of ["active", "quiet"] as const) {
+    const windows = obj[key];
+    if (windows === undefined) {
+      continue;
+    }
+    if (!Array.isArray(windows) || windows.length === 0) {
+      throw new Error(`${name}.${key} must be a non-empty array`);
+    }
+    schedule[key] = windows.map((w, i) => validateTimeWindow(w, `${name}.${key}[${i}]`));
+  }
+
+  if (!schedule.active && !schedule.quiet) {
+    throw new Error(`${name} must define active or quiet windows`);
+  }
+
+  if (obj.outside !== undefined) {
+    if (obj.outside !== "drop" && obj.outside !== "hold") {
+      throw new Error(`${name}.outside must be drop or hold`);
+    }
+    schedule.outside = obj.outside;
+  }
+
+  return schedule;
+}
+
+function validateRateLimit(config: unknown, index: number): RateLimitConfig {
+  if (typeof config !== "object" || config === null) {
+    throw new Error(`Provider at index ${index} rateLimit must be an object`);
+  }
+
+  const obj = config as Record<string, unknown>;
+
+  if (typeof obj.maxPerMinute !== "number" || obj.maxPerMinute <= 0) {
+    throw new Error(`Provider at index ${index} rateLimit.maxPerMinute must be a positive number`);
+  }
+
+  let burst = 1;
+  if (obj.burst !== undefined) {
+    if (typeof obj.burst !== "number" || !Number.isInteger(obj.burst) || obj.burst < 1) {
+      throw new Error(`Provider at index ${index} rateLimit.burst must be a positive integer`);
+    }
+    burst = obj.burst;
+  }
+
+  return { maxPerMinute: obj.maxPerMinute, burst };
+}
+
+function validateDigest(config: unknown, index: number): DigestConfig {
+  if (typeof config !== "object" || config === null) {
+    throw new Error(`Provider at index ${index} digest must be an object`);
+  }
+
+  const obj = config as Record<string, unknown>;
+
+  if (typeof obj.windowMs !== "number" || obj.windowMs <= 0) {
+    throw new Error(`Provider at index ${index} digest.windowMs must be a positive number`);
+  }
+
+  return { windowMs: obj.windowMs };
+}
+
+function validateTemplateString(value: unknown, name: string, placeholders: readonly string[]): string {
+  if (typeof value !== "string") {
+    throw new Error(`${name} must be a string`);
+  }
+
+  for (const placeholder of getPlaceholders(value)) {
+    if (!placeholders.includes(placeholder)) {
+      throw new Error(`${name} uses unknown placeholder {{${placeholder}}}`);
+    }
+  }
+
+  return value;
+}
+
+function validateTypedTemplate(value: unknown, name: string): TypedTemplate {
+  if (typeof value === "string") {
+    return validateTemplateString(value, name, TEMPLATE_PLACEHOLDERS);
+  }
+
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`${name} must be a string or an object keyed by notification type`);
+  }
+
+  const templates: Partial<Record<NotificationType, string>> = {};
+  for (const [type, template] of Object.entries(value)) {
+    if (!NOTIFICATION_TYPES.includes(type as NotificationType)) {
+      throw new Error(`${name} has unknown notification type "${type}"`);
+    }
+    templates[type as NotificationType] = validateTemplateString(template, `${name}.${type}`, TEMPLATE_PLACEHOLDERS);
+  }
+  return templates;
+}
+
+function validateJsonTemplate(value: unknown, name: string): void {
+  if (typeof value === "string") {
+    validateTemplateString(value, name, TEMPLATE_PLACEHOLDERS);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => validateJsonTemplate(item, `${name}[${i}]`));
+  } else if (typeof value === "object" && value !== null) {
+    for (const [key, item] of Object.entries(value)) {
+      validateJsonTemplate(item, `${name}.${key}`);
+    }
+  }
+}
+
+function validateTemplates(config: unknown, name: string): TemplateConfig {
+  if (typeof config !== "object" || config === null) {
+    throw new Error(`${name} must be an object`);
+  }
+
+  const obj = config as Record<string, unknown>;
+  const templates: TemplateConfig = {};
+
+  if (obj.title !== undefined) {
+    // A title can't refer to itself
+    const title = validateTypedTemplate(obj.title, `${name}.title`);
+    const strings = typeof title === "string" ? [title] : Object.values(title);
+    if (strings.some((s) => getPlaceholders(s).includes("title"))) {
+      throw new Error(`${name}.title cannot use {{title}}`);
+    }
+    templates.title = title;
+  }
+
+  if (obj.status !== undefined) {
+    // A status can't refer to the title, which is rendered from it
+    const status = validateTypedTemplate(obj.status, `${name}.status`);
+    const strings = typeof status === "string" ? [status] : Object.values(status);
+    if (strings.some((s) => getPlaceholders(s).some((p) => p === "title" || p === "status"))) {
+      throw new Error(`${name}.status cannot use {{title}} or {{status}}`);
+    }
+    templates.status = status;
+  }
+
+  if (obj.fields !== undefined) {
+    if (!Array.isArray(obj.fields)) {
+      throw new Error(`${name}.fields must be an array`);
+    }
+    templates.fields = obj.fields.map((field, i) => {
+      if (typeof field !== "object" || field === null) {
+        throw new Error(`${name}.fields[${i}] must be an object`);
+      }
+      const f = field as Record<string, unknown>;
+      return {
+        name: validateTemplateString(f.name, `${name}.fields[${i}].name`, TEMPLATE_PLACEHOLDERS),
+        value: validateTemplateString(f.value, `${name}.fields[${i}].value`, TEMPLATE_PLACEHOLDERS),
+      };
+    });
+  }
+
+  if (obj.batchTitle !== undefined) {
+    templates.batchTitle = validateTemplateString(obj.batchTitle, `${name}.batchTitle`, BATCH_TEMPLATE_PLACEHOLDERS);
+  }
+
+  return templates;
+}
+
+function validateProviderConfig(config: unknown, index: number, templates?: TemplateConfig): ProviderConfig {
   if (typeof config !== "object" || config === null) {
     throw new Error(`Provider at index ${index} must be an object`);
   }
@@ -131,43 +924,253 @@ function validateProviderConfig(config: unknown, index: number): ProviderConfig
     throw new Error(`Provider at index ${index} must have a type`);
   }
 
+  if (obj.id !== undefined && (typeof obj.id !== "string" || !obj.id)) {
+    throw new Error(`Provider at index ${index} id must be a non-empty string if provided`);
+  }
+
+  const base: BaseProviderConfig = {
+    id: obj.id as string | undefined,
+    enabled: obj.enabled === true,
+    retry: validateRetryConfig(obj.retry, index),
+    filters: obj.filters === undefined ? undefined : validateFilters(obj.filters, index),
+    schedule: obj.schedule === undefined ? undefined : validateSchedule(obj.schedule, index),
+    rateLimit: obj.rateLimit === undefined ? undefined : validateRateLimit(obj.rateLimit, index),
+    digest: obj.digest === undefined ? undefined : validateDigest(obj.digest, index),
+    templates:
+      obj.templates === undefined
+        ? templates
+        : { ...templates, ...validateTemplates(obj.templates, `Provider at index ${index} templates`) },
+  };
+
   switch (obj.type) {
     case "discord":
-      return validateDiscordProvider(obj);
+      return validateDiscordProvider(obj, base);
     case "webhook":
-      return validateWebhookProvider(obj);
+      return validateWebhookProvider(obj, base);
     case "msteams":
-      return validateMSTeamsProvider(obj);
+      return validateMSTeamsProvider(obj, base);
+    case "slack":
+      return validateSlackProvider(obj, base);
+    case "ntfy":
+      return validateNtfyProvider(obj, base);
+    case "gotify":
+      return validateGotifyProvider(obj, base);
+    case "telegram":
+      return validateTelegramProvider(obj, base);
+    case "email":
+      return validateEmailProvider(obj, base);
+    case "desktop":
+      return validateDesktopProvider(obj, base);
     default:
       throw new Error(`Unknown provider type: ${obj.type}`);
   }
 }
 
-function validateConfig(config: unknown): Config {
+function validateOutboxConfig(config: unknown): OutboxConfig {
+  if (typeof config !== "object" || config === null) {
+    throw new Error("outbox config must be an object");
+  }
+
+  const obj = config as Record<string, unknown>;
+
+  if (typeof obj.path !== "string" || !obj.path) {
+    throw new Error("outbox.path is required and must be a string");
+  }
+
+  let maxAgeMs = 24 * 60 * 60 * 1000;
+  if (obj.maxAgeMs !== undefined) {
+    if (typeof obj.maxAgeMs !== "number" || obj.maxAgeMs <= 0) {
+      throw new Error("outbox.maxAgeMs must be a positive number");
+    }
+    maxAgeMs = obj.maxAgeMs;
+  }
+
+  return { path: obj.path, maxAgeMs };
+}
+
+function validateActionsConfig(config: unknown): ActionsConfig {
+  if (typeof config !== "object" || config === null) {
+    throw new Error("actions config must be an object");
+  }
+
+  const obj = config as Record<string, unknown>;
+
+  if (typeof obj.port !== "number" || !Number.isInteger(obj.port) || obj.port < 0 || obj.port > 65535) {
+    throw new Error("actions.port is required and must be a valid port number");
+  }
+
+  if (obj.hostname !== undefined && (typeof obj.hostname !== "string" || !obj.hostname)) {
+    throw new Error("actions.hostname must be a non-empty string if provided");
+  }
+
+  if (typeof obj.publicUrl !== "string" || !URL.canParse(obj.publicUrl)) {
+    throw new Error("actions.publicUrl is required and must be a URL");
+  }
+
+  // Anyone who knows the secret can abort or prompt any session
+  if (typeof obj.secret !== "string" || obj.secret.length < 16) {
+    throw new Error("actions.secret is required and must be at least 16 characters");
+  }
+
+  let ttlMs = 24 * 60 * 60 * 1000;
+  if (obj.ttlMs !== undefined) {
+    if (typeof obj.ttlMs !== "number" || obj.ttlMs <= 0) {
+      throw new Error("actions.ttlMs must be a positive number");
+    }
+    ttlMs = obj.ttlMs;
+  }
+
+  let replyText = "continue";
+  if (obj.replyText !== undefined) {
+    if (typeof obj.replyText !== "string" || !obj.replyText.trim()) {
+      throw new Error("actions.replyText must be a non-empty string");
+    }
+    replyText = obj.replyText;
+  }
+
+  return {
+    port: obj.port,
+    hostname: (obj.hostname as string | undefined) ?? "0.0.0.0",
+    publicUrl: obj.publicUrl.replace(/\/$/, ""),
+    secret: obj.secret,
+    ttlMs,
+    replyText,
+  };
+}
+
+function validateHealthConfig(config: unknown): HealthConfig {
+  if (typeof config !== "object" || config === null) {
+    throw new Error("health config must be an object");
+  }
+
+  const obj = config as Record<string, unknown>;
+
+  if (typeof obj.port !== "number" || !Number.isInteger(obj.port) || obj.port < 0 || obj.port > 65535) {
+    throw new Error("health.port is required and must be a valid port number");
+  }
+
+  if (obj.hostname !== undefined && (typeof obj.hostname !== "string" || !obj.hostname)) {
+    throw new Error("health.hostname must be a non-empty string if provided");
+  }
+
+  return { port: obj.port, hostname: (obj.hostname as string | undefined) ?? "0.0.0.0" };
+}
+
+function validateWatchdogConfig(config: unknown): WatchdogConfig {
   if (typeof config !== "object" || config === null) {
-    throw new Error("Config must be an object");
+    throw new Error("watchdog config must be an object");
   }
 
   const obj = config as Record<string, unknown>;
+  const watchdog: WatchdogConfig = {};
+
+  if (obj.maxRetryAttempts !== undefined) {
+    if (typeof obj.maxRetryAttempts !== "number" || !Number.isInteger(obj.maxRetryAttempts) || obj.maxRetryAttempts < 1) {
+      throw new Error("watchdog.maxRetryAttempts must be a positive integer");
+    }
+    watchdog.maxRetryAttempts = obj.maxRetryAttempts;
+  }
+
+  if (obj.maxBusyMs !== undefined) {
+    if (typeof obj.maxBusyMs !== "number" || obj.maxBusyMs <= 0) {
+      throw new Error("watchdog.maxBusyMs must be a positive number");
+    }
+    watchdog.maxBusyMs = obj.maxBusyMs;
+  }
+
+  return watchdog;
+}
+
+/**
+ * Every problem found in a config, so they can all be fixed in one go
+ */
+export class ConfigError extends Error {
+  readonly errors: string[];
 
-  const opencode = validateOpenCodeConfig(obj.opencode);
+  constructor(errors: string[]) {
+    super(errors.length === 1 ? errors[0] : `${errors.length} config errors:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+    this.name = "ConfigError";
+    this.errors = errors;
+  }
+}
 
-  if (!Array.isArray(obj.providers)) {
-    throw new Error("providers must be an array");
+function validateConfig(config: unknown): Config {
+  if (typeof config !== "object" || config === null) {
+    throw new ConfigError(["Config must be an object"]);
   }
 
-  const providers = obj.providers.map((p, i) => validateProviderConfig(p, i));
+  const obj = config as Record<string, unknown>;
+
+  // Validate each section separately so every error is reported, not just the first
+  const errors: string[] = [];
+  const check = <T>(validate: () => T): T | undefined => {
+    try {
+      return validate();
+    } catch (error) {
+      errors.push((error as Error).message);
+      return undefined;
+    }
+  };
+
+  const opencode = check(() => validateOpenCodeConfigs(obj.opencode));
+
+  const templates = obj.templates === undefined ? undefined : check(() => validateTemplates(obj.templates, "templates"));
+  let providers: Array<ProviderConfig | undefined> = [];
+  if (Array.isArray(obj.providers)) {
+    providers = obj.providers.map((p, i) => check(() => validateProviderConfig(p, i, templates)));
+    const ids = new Set<string>();
+    for (const provider of providers) {
+      if (provider?.id === undefined) {
+        continue;
+      }
+      if (ids.has(provider.id)) {
+        errors.push(`Provider id "${provider.id}" is used more than once`);
+      }
+      ids.add(provider.id);
+    }
+  } else {
+    errors.push("providers must be an array");
+  }
 
   // Validate debounceMs (optional, default 3000ms)
   let debounceMs = 3000;
   if (obj.debounceMs !== undefined) {
     if (typeof obj.debounceMs !== "number" || obj.debounceMs < 0) {
-      throw new Error("debounceMs must be a non-negative number");
+      errors.push("debounceMs must be a non-negative number");
+    } else {
+      debounceMs = obj.debounceMs;
+    }
+  }
+
+  let reconcileMaxAgeMs = 10 * 60 * 1000;
+  if (obj.reconcileMaxAgeMs !== undefined) {
+    if (typeof obj.reconcileMaxAgeMs !== "number" || obj.reconcileMaxAgeMs < 0) {
+      errors.push("reconcileMaxAgeMs must be a non-negative number");
+    } else {
+      reconcileMaxAgeMs = obj.reconcileMaxAgeMs;
     }
-    debounceMs = obj.debounceMs;
   }
 
-  return { opencode, providers, debounceMs };
+  const actions = obj.actions === undefined ? undefined : check(() => validateActionsConfig(obj.actions));
+  const watchdog = obj.watchdog === undefined ? undefined : check(() => validateWatchdogConfig(obj.watchdog));
+  const outbox = obj.outbox === undefined ? undefined : check(() => validateOutboxConfig(obj.outbox));
+  const health = obj.health === undefined ? undefined : check(() => validateHealthConfig(obj.health));
+
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+
+  return {
+    opencode: opencode!,
+    providers: providers as ProviderConfig[],
+    templates,
+    debounceMs,
+    reconcileMaxAgeMs,
+    actions,
+    watchdog,
+    outbox,
+    health,
+  };
 }
 
 export async function loadConfig(path: string): Promise<Config> {
@@ -186,5 +1189,5 @@ export async function loadConfig(path: string): Promise<Config> {
     throw new Error(`Failed to parse config file as JSON: ${path}`);
   }
 
-  return validateConfig(parsed);
+  return validateConfig(applyEnvOverrides(resolveSecrets(parsed)));
 }
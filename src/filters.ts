@@ -0,0 +1,72 @@
+/**
+ * Per-provider notification filters
+ * A notification is routed to a provider when it matches any include rule (or there are none)
+ * and matches no exclude rule. Within a rule, every field that is set must match.
+ */
+
+import { homedir } from "os";
+import type { FilterRule, ProviderFilters } from "./config.ts";
+import type { Notification } from "./providers/index.ts";
+
+export type NotificationFilter = (notification: Notification) => boolean;
+
+/**
+ * Compile filters from config into a predicate, or accept everything when none are set
+ */
+export function createNotificationFilter(filters: ProviderFilters | undefined): NotificationFilter {
+  if (!filters) {
+    return () => true;
+  }
+
+  const include = filters.include?.map(compileRule);
+  const exclude = filters.exclude?.map(compileRule) ?? [];
+
+  return (notification) => {
+    if (include && !include.some((rule) => rule(notification))) {
+      return false;
+    }
+    return !exclude.some((rule) => rule(notification));
+  };
+}
+
+function compileRule(rule: FilterRule): NotificationFilter {
+  const directories = rule.directories?.map((pattern) => new Bun.Glob(expandHome(pattern)));
+  const sessionTitle = rule.sessionTitle !== undefined ? new RegExp(rule.sessionTitle) : undefined;
+
+  return (notification) => {
+    if (directories) {
+      const directory = notification.projectDirectory.replace(/\/$/, "");
+      if (!directories.some((glob) => glob.match(directory))) {
+        return false;
+      }
+    }
+
+    if (rule.projectIds && !rule.projectIds.includes(notification.projectId)) {
+      return false;
+    }
+
+    if (rule.servers && !rule.servers.includes(notification.server)) {
+      return false;
+    }
+
+    if (sessionTitle && !sessionTitle.test(notification.sessionTitle)) {
+      return false;
+    }
+
+    if (rule.types && !rule.types.includes(notification.type)) {
+      return false;
+    }
+
+    return true;
+  };
+}
+
+/**
+ * Expand a leading ~ to the home directory of the user running oc-notifier
+ */
+export function expandHome(pattern: string): string {
+  if (pattern === "~" || pattern.startsWith("~/")) {
+    return homedir() + pattern.slice(1);
+  }
+  return pattern;
+}
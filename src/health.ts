@@ -0,0 +1,123 @@
+/**
+ * Health, readiness and metrics server
+ * /healthz answers as long as the process is up, /readyz only while every server's SSE stream is connected
+ * (or, while polling, its last poll succeeded), and /metrics reports counters in the Prometheus text format.
+ */
+
+import type { HealthConfig } from "./config.ts";
+import type { Notifier } from "./notifier.ts";
+import type { ServerMonitor } from "./monitor.ts";
+
+type Sample = [labels: Record<string, string>, value: number];
+
+export class HealthServer {
+  private readonly config: HealthConfig;
+  private readonly monitors: ServerMonitor[];
+  private readonly notifier: Notifier;
+  private server: Bun.Server<undefined> | null = null;
+
+  constructor(config: HealthConfig, monitors: ServerMonitor[], notifier: Notifier) {
+    this.config = config;
+    this.monitors = monitors;
+    this.notifier = notifier;
+  }
+
+  start(): void {
+    this.server = Bun.serve({
+      port: this.config.port,
+      hostname: this.config.hostname,
+      fetch: (request) => this.handle(request),
+    });
+    console.log(`Health server listening on ${this.config.hostname}:${this.server.port}`);
+  }
+
+  stop(): void {
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  private handle(request: Request): Response {
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, HEAD" } });
+    }
+
+    switch (new URL(request.url).pathname) {
+      case "/healthz":
+        return Response.json({ status: "ok" });
+      case "/readyz":
+        return this.readiness();
+      case "/metrics":
+        return new Response(this.metrics(), {
+          headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+        });
+      default:
+        return new Response("Not found", { status: 404 });
+    }
+  }
+
+  private readiness(): Response {
+    const now = Date.now();
+    const servers = this.monitors.map((monitor) => {
+      const { connected, polling, lastEventAt } = monitor.client.getStats();
+      return { name: monitor.name, connected, polling, lastEventAgeMs: lastEventAt === null ? null : now - lastEventAt };
+    });
+    const ready = servers.every((server) => server.connected);
+
+    return Response.json({ status: ready ? "ready" : "not ready", servers }, { status: ready ? 200 : 503 });
+  }
+
+  private metrics(): string {
+    const servers = this.monitors.map((monitor) => ({
+      labels: { server: monitor.name },
+      sse: monitor.client.getStats(),
+      sessions: monitor.getSessionCounts(),
+    }));
+    const providers = this.notifier.getStats();
+    const lines: string[] = [];
+
+    addMetric(lines, "oc_notifier_sse_connected", "gauge", "Whether the SSE stream is connected",
+      servers.map(({ labels, sse }) => [labels, sse.connected ? 1 : 0])
+    );
+    addMetric(lines, "oc_notifier_polling", "gauge", "Whether session changes are polled for instead of streamed",
+      servers.map(({ labels, sse }) => [labels, sse.polling ? 1 : 0])
+    );
+    addMetric(lines, "oc_notifier_sse_last_event_timestamp_seconds", "gauge", "When the last SSE event was received",
+      servers.flatMap(({ labels, sse }): Sample[] => (sse.lastEventAt === null ? [] : [[labels, sse.lastEventAt / 1000]]))
+    );
+    addMetric(lines, "oc_notifier_sse_events_total", "counter", "SSE events received, by event type",
+      servers.flatMap(({ labels, sse }) => [...sse.eventsByType].map(([type, count]): Sample => [{ ...labels, type }, count]))
+    );
+    addMetric(lines, "oc_notifier_sse_reconnects_total", "counter", "SSE reconnection attempts",
+      servers.map(({ labels, sse }) => [labels, sse.reconnects])
+    );
+    addMetric(lines, "oc_notifier_sse_backoff_seconds", "gauge", "Delay before the next SSE reconnection attempt",
+      servers.map(({ labels, sse }) => [labels, sse.backoffMs / 1000])
+    );
+    addMetric(lines, "oc_notifier_notifications_sent_total", "counter", "Notifications delivered, by provider",
+      providers.map(({ key, type, sent }) => [{ provider: type, key }, sent])
+    );
+    addMetric(lines, "oc_notifier_notifications_failed_total", "counter", "Notifications that could not be delivered, by provider",
+      providers.map(({ key, type, failed }) => [{ provider: type, key }, failed])
+    );
+    addMetric(lines, "oc_notifier_tracked_sessions", "gauge", "Sessions whose status is being tracked",
+      servers.map(({ labels, sessions }) => [labels, sessions.tracked])
+    );
+    addMetric(lines, "oc_notifier_pending_debounces", "gauge", "Idle notifications waiting out their debounce delay",
+      servers.map(({ labels, sessions }) => [labels, sessions.pendingDebounces])
+    );
+
+    return lines.join("\n") + "\n";
+  }
+}
+
+function addMetric(lines: string[], name: string, type: "counter" | "gauge", help: string, samples: Sample[]): void {
+  lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  for (const [labels, value] of samples) {
+    const rendered = Object.entries(labels).map(([key, label]) => `${key}="${escapeLabel(label)}"`);
+    lines.push(`${name}${rendered.length > 0 ? `{${rendered.join(",")}}` : ""} ${value}`);
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
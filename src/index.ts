@@ -1,31 +1,52 @@
 /**
  * oc-notifier - CLI entry point
  *
- * Connects to an OpenCode server's SSE stream and sends push notifications
- * when sessions transition to idle state or when the question tool is invoked.
+ * Connects to the SSE stream of one or more OpenCode servers and sends push notifications
+ * when sessions transition to idle state, when the question tool is invoked,
+ * when a tool call needs permission, or when a session stops with an error.
+ * Optional watchdogs also report sessions stuck retrying or busy for too long,
+ * and an optional action server lets notifications abort or reply to a session.
  */
 
-import { parseArgs } from "util";
-import { loadConfig } from "./config.ts";
-import { SSEClient } from "./sse-client.ts";
-import { createProviders, type Notification } from "./providers/index.ts";
+import { watch, type FSWatcher } from "fs";
+import { basename, dirname } from "path";
+import { isDeepStrictEqual, parseArgs } from "util";
+import { loadConfig, type Config, type OpenCodeConfig } from "./config.ts";
+import type { SSEClient } from "./sse-client.ts";
+import type { Notification } from "./providers/index.ts";
 import { Notifier } from "./notifier.ts";
+import { Outbox } from "./outbox.ts";
+import { ServerMonitor } from "./monitor.ts";
+import { ActionServer } from "./actions.ts";
+import { HealthServer } from "./health.ts";
+import { runCommand } from "./cli.ts";
 
-import type { ToolState } from "./sse-client.ts";
-
-const { values } = parseArgs({
+const { values, positionals } = parseArgs({
   args: Bun.argv.slice(2),
+  allowPositionals: true,
   options: {
     config: {
       type: "string",
       short: "c",
       default: "./config.json",
     },
+    watch: {
+      type: "boolean",
+      short: "w",
+      default: false,
+    },
     help: {
       type: "boolean",
       short: "h",
       default: false,
     },
+    provider: { type: "string", short: "p" },
+    type: { type: "string", short: "t" },
+    server: { type: "string", short: "s" },
+    session: { type: "string" },
+    title: { type: "string" },
+    directory: { type: "string", short: "d" },
+    message: { type: "string", short: "m" },
   },
 });
 
@@ -34,14 +55,33 @@ if (values.help) {
 oc-notifier - OpenCode session idle notifier
 
 Usage:
-  bun run src/index.ts [options]
+  bun run src/index.ts [options]            Monitor sessions and send notifications
+  bun run src/index.ts <command> [options]
 
-Options:
-  -c, --config <path>  Path to config file (default: ./config.json)
-  -h, --help           Show this help message
+Commands:
+  validate    Check the config and print every error
+  test        Send a sample notification to each provider and report the result
+  sessions    List the sessions on the OpenCode server(s)
+  send        Send a notification with custom content to each provider
 
-Example:
+Options:
+  -c, --config <path>     Path to config file (default: ./config.json)
+  -w, --watch             Reload the config when the file changes (SIGHUP always reloads it)
+  -h, --help              Show this help message
+
+Options for test and send:
+  -p, --provider <p>      Only send to the provider at this index in providers, or of this type
+  -t, --type <type>       Notification type (test: idle or question; send: any, default: idle)
+  -s, --server <name>     OpenCode server the notification is about (also filters sessions)
+  -m, --message <text>    Detail text: the question, error message, last message, ... (send)
+      --title <title>     Session title (send)
+      --session <id>      Session ID (send)
+  -d, --directory <dir>   Project directory (default: current directory)
+
+Examples:
   bun run src/index.ts --config /path/to/config.json
+  bun run src/index.ts test --provider discord --type question
+  bun run src/index.ts send --type error --title "Nightly build" --message "Tests failed"
 `);
   process.exit(0);
 }
@@ -49,211 +89,191 @@ Example:
 async function main() {
   const configPath = values.config!;
 
+  const [command] = positionals;
+  if (command !== undefined) {
+    process.exit(await runCommand(command, configPath, values));
+  }
+
   console.log(`Loading config from ${configPath}...`);
-  const config = await loadConfig(configPath);
+  let config = await loadConfig(configPath);
+
+  // Open the outbox first so undelivered notifications from a previous run can be drained
+  const outbox = config.outbox ? new Outbox(config.outbox) : undefined;
+  if (outbox) {
+    console.log(`Using outbox at ${config.outbox!.path}`);
+    const abandoned = outbox.abandonInFlight();
+    if (abandoned > 0) {
+      console.warn(`${abandoned} delivery(ies) were in flight at last shutdown and will not be resent`);
+    }
+  }
 
   // Create providers
-  const providers = createProviders(config.providers);
-  const notifier = new Notifier(providers);
+  const notifier = new Notifier(config.providers, outbox, (notification) => actionServer?.createLinks(notification));
 
-  // Create SSE client
-  const sseClient = new SSEClient(config.opencode);
-
-  // Track previous session status to detect transitions TO idle
-  // Map of sessionID -> { status, lastSeen }
-  const sessionState = new Map<string, { status: string; lastSeen: number }>();
-
-  // Track pending notification timers for debouncing
-  const pendingNotifications = new Map<string, Timer>();
-
-  // Track known subagent sessions to avoid re-fetching
-  const knownSubagents = new Set<string>();
-
-  // Cleanup old sessions periodically (every 5 minutes, remove entries older than 1 hour)
-  const SESSION_TTL_MS = 60 * 60 * 1000; // 1 hour
-  const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+  // Attach action links, then deliver to all providers
+  async function send(notification: Notification): Promise<void> {
+    notification.actions = actionServer?.createLinks(notification);
+    await notifier.send(notification);
+  }
+
+  // Monitor each OpenCode server with its own SSE client and session state.
+  // The list and the client map are updated in place when the config is reloaded.
+  const monitors: ServerMonitor[] = [];
+  const clients = new Map<string, SSEClient>();
+
+  function startMonitor(server: OpenCodeConfig): ServerMonitor {
+    const monitor = new ServerMonitor(server, {
+      debounceMs: config.debounceMs,
+      reconcileMaxAgeMs: config.reconcileMaxAgeMs,
+      watchdog: config.watchdog,
+      outbox,
+      send,
+    });
+    monitors.push(monitor);
+    clients.set(monitor.name, monitor.client);
+    monitor.start().catch((error) => console.error(`Monitoring of ${monitor.name} stopped:`, error));
+    return monitor;
+  }
+
+  function stopMonitor(monitor: ServerMonitor): void {
+    monitor.stop();
+    monitors.splice(monitors.indexOf(monitor), 1);
+    clients.delete(monitor.name);
+  }
+
+  // Serve signed action links, if configured
+  const actionServer = config.actions ? new ActionServer(config.actions, clients) : undefined;
+  actionServer?.start();
+
+  // Retry deliveries left pending by a provider outage
+  const DRAIN_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
   setInterval(() => {
-    const now = Date.now();
-    let cleaned = 0;
-    for (const [sessionID, state] of sessionState) {
-      if (now - state.lastSeen > SESSION_TTL_MS) {
-        sessionState.delete(sessionID);
-        knownSubagents.delete(sessionID);
-        cleaned++;
-      }
-    }
-    if (cleaned > 0) {
-      console.log(`Cleaned up ${cleaned} stale session(s) from tracking`);
-    }
-  }, CLEANUP_INTERVAL_MS);
+    notifier.drain().catch((error) => console.error("Failed to drain outbox:", error));
+  }, DRAIN_INTERVAL_MS);
 
   console.log(`Debounce delay: ${config.debounceMs}ms`);
 
-  // Handle session status events (from all projects via /global/event)
-  sseClient.onSessionStatus(async (event, directory) => {
-    const { sessionID, status } = event.properties;
-    const prevState = sessionState.get(sessionID);
-    const prevStatus = prevState?.status;
-    const currentStatus = status.type;
-    const now = Date.now();
-
-    console.log(`[DEBUG] Session ${sessionID} event: ${prevStatus ?? "(new)"} -> ${currentStatus} (project: ${directory}, timestamp: ${now})`);
-
-    // Update tracked status with timestamp
-    sessionState.set(sessionID, { status: currentStatus, lastSeen: now });
-
-    // Skip known subagent sessions early
-    if (knownSubagents.has(sessionID)) {
+  // Serve health checks and metrics, if configured
+  const healthServer = config.health ? new HealthServer(config.health, monitors, notifier) : undefined;
+  healthServer?.start();
+
+  console.log(`Starting oc-notifier for ${config.opencode.length} server(s): ${config.opencode.map((s) => s.name).join(", ")}...`);
+  for (const server of config.opencode) {
+    startMonitor(server);
+  }
+
+  // Resume debounced idle notifications and undelivered notifications from the previous run
+  if (outbox) {
+    for (const pending of outbox.pendingIdle()) {
+      // Entries from before several servers were supported belong to the only server there was
+      const monitor = pending.server ? monitors.find((m) => m.name === pending.server) : monitors[0];
+      if (!monitor) {
+        console.log(`Server ${pending.server} is no longer configured, dropping pending idle notification for session ${pending.sessionID}`);
+        outbox.removePendingIdle(pending.sessionID);
+        continue;
+      }
+      monitor.resumePendingIdle(pending.sessionID, pending.directory, pending.dueAt);
+    }
+    notifier.drain().catch((error) => console.error("Failed to drain outbox:", error));
+  }
+
+  // Re-read the config and apply it without a restart. Servers whose settings are unchanged keep
+  // their connection and session state; on any error the running config stays in place.
+  async function reload(): Promise<void> {
+    let next: Config;
+    try {
+      next = await loadConfig(configPath);
+    } catch (error) {
+      console.error(`Config reload failed, keeping the current config: ${(error as Error).message}`);
       return;
     }
 
-    // If session goes busy/retry, cancel any pending notification
-    if (currentStatus !== "idle") {
-      const pendingTimer = pendingNotifications.get(sessionID);
-      if (pendingTimer) {
-        clearTimeout(pendingTimer);
-        pendingNotifications.delete(sessionID);
-        console.log(`Session ${sessionID} went ${currentStatus}, cancelled pending notification`);
+    notifier.reload(next.providers);
+
+    for (const monitor of [...monitors]) {
+      const previous = config.opencode.find((s) => s.name === monitor.name);
+      const server = next.opencode.find((s) => s.name === monitor.name);
+      if (!server || !isDeepStrictEqual(server, previous)) {
+        console.log(`Server ${monitor.name} ${server ? "changed, reconnecting" : "removed, disconnecting"}`);
+        stopMonitor(monitor);
       } else {
-        console.log(`Session ${sessionID} status: ${currentStatus} (project: ${directory})`);
+        monitor.reconfigure({
+          debounceMs: next.debounceMs,
+          reconcileMaxAgeMs: next.reconcileMaxAgeMs,
+          watchdog: next.watchdog,
+        });
       }
-      return;
     }
 
-    // Only notify when transitioning TO idle (not on initial idle)
-    if (currentStatus === "idle" && prevStatus && prevStatus !== "idle") {
-      // Check if there's already a pending notification (shouldn't happen, but be safe)
-      if (pendingNotifications.has(sessionID)) {
-        return;
+    for (const key of ["actions", "health", "outbox"] as const) {
+      if (!isDeepStrictEqual(config[key], next[key])) {
+        console.warn(`Changes to ${key} take effect after a restart`);
       }
-
-      console.log(`Session ${sessionID} went idle, scheduling notification in ${config.debounceMs}ms...`);
-
-      // Schedule the notification after debounce delay
-      const timer = setTimeout(async () => {
-        pendingNotifications.delete(sessionID);
-
-        // Double-check the session is still idle
-        const currentState = sessionState.get(sessionID);
-        if (currentState?.status !== "idle") {
-          console.log(`Session ${sessionID} no longer idle, skipping notification`);
-          return;
-        }
-
-        // Fetch session info to check if it's a subagent
-        const sessionInfo = await sseClient.fetchSessionInfo(sessionID, directory);
-
-        // Skip subagent sessions (those with a parent session)
-        if (sessionInfo?.parentSessionID) {
-          console.log(`Session ${sessionID} is a subagent (parent: ${sessionInfo.parentSessionID}), skipping notification`);
-          knownSubagents.add(sessionID);
-          return;
-        }
-
-        console.log(`Session ${sessionID} still idle, sending notification (project: ${directory})`);
-        console.log(`[DEBUG] sessionInfo: ${JSON.stringify(sessionInfo)}`);
-
-        const notification: Notification = {
-          type: "idle",
-          sessionId: sessionID,
-          sessionTitle: sessionInfo?.title || sessionID,
-          projectId: sessionInfo?.projectID || "",
-          projectDirectory: directory,
-          desktopUrl: buildDesktopUrl(config.opencode.desktopBaseUrl, sessionInfo?.projectID || "", sessionID),
-          timestamp: new Date(),
-        };
-
-        console.log(`[DEBUG] Sending notification: ${JSON.stringify(notification)}`);
-        await notifier.send(notification);
-      }, config.debounceMs);
-
-      pendingNotifications.set(sessionID, timer);
     }
-  });
 
-  // Track question tool calls to avoid duplicate notifications
-  // Map of "sessionID:callID" -> timestamp when we notified
-  const notifiedQuestions = new Map<string, number>();
-
-  // Clean up old question tracking entries periodically
-  const QUESTION_TTL_MS = 30 * 60 * 1000; // 30 minutes
-  setInterval(() => {
-    const now = Date.now();
-    for (const [key, timestamp] of notifiedQuestions) {
-      if (now - timestamp > QUESTION_TTL_MS) {
-        notifiedQuestions.delete(key);
+    // New and changed servers are started with the new settings
+    config = { ...next, actions: config.actions, health: config.health, outbox: config.outbox };
+    for (const server of config.opencode.filter((s) => !monitors.some((m) => m.name === s.name))) {
+      console.log(`Connecting to server ${server.name}`);
+      const monitor = startMonitor(server);
+      for (const pending of outbox?.pendingIdle() ?? []) {
+        if (pending.server === monitor.name) {
+          monitor.resumePendingIdle(pending.sessionID, pending.directory, pending.dueAt);
+        }
       }
     }
-  }, CLEANUP_INTERVAL_MS);
-
-  // Handle question tool events
-  sseClient.onQuestionTool(async (sessionID: string, toolState: ToolState, directory: string) => {
-    // Only notify when the question tool is in "running" state (waiting for user input)
-    if (toolState.status !== "running") {
-      return;
-    }
-
-    // Skip known subagent sessions
-    if (knownSubagents.has(sessionID)) {
-      return;
-    }
-
-    // Extract question text from the tool input
-    const input = toolState.input as { questions?: Array<{ question?: string }> };
-    const questionText = input.questions?.[0]?.question || "OpenCode is waiting for your input";
-
-    // Create a unique key for this question call to avoid duplicate notifications
-    // We use a hash of the question text since we don't have callID in this context
-    const questionKey = `${sessionID}:${questionText.slice(0, 100)}`;
-    if (notifiedQuestions.has(questionKey)) {
-      return;
-    }
-
-    console.log(`Question tool invoked in session ${sessionID}, sending notification...`);
-
-    // Fetch session info
-    const sessionInfo = await sseClient.fetchSessionInfo(sessionID, directory);
-
-    // Skip subagent sessions
-    if (sessionInfo?.parentSessionID) {
-      console.log(`Session ${sessionID} is a subagent, skipping question notification`);
-      knownSubagents.add(sessionID);
-      return;
-    }
 
-    // Mark as notified
-    notifiedQuestions.set(questionKey, Date.now());
+    console.log(`Config reloaded from ${configPath}`);
+  }
 
-    const notification: Notification = {
-      type: "question",
-      sessionId: sessionID,
-      sessionTitle: sessionInfo?.title || sessionID,
-      projectId: sessionInfo?.projectID || "",
-      projectDirectory: directory,
-      desktopUrl: buildDesktopUrl(config.opencode.desktopBaseUrl, sessionInfo?.projectID || "", sessionID),
-      timestamp: new Date(),
-      question: questionText,
-    };
+  let reloading: Promise<void> = Promise.resolve();
+  const scheduleReload = () => {
+    // A failure must not break the chain, or no later reload would run
+    reloading = reloading.then(reload).catch((error) => console.error("Config reload failed:", error));
+  };
 
-    await notifier.send(notification);
+  process.on("SIGHUP", () => {
+    console.log("Received SIGHUP, reloading config...");
+    scheduleReload();
   });
 
+  // Editors often replace the file rather than write to it, so watch its directory
+  let watcher: FSWatcher | undefined;
+  if (values.watch) {
+    const CONFIG_WATCH_DELAY_MS = 500;
+    let watchTimer: Timer | null = null;
+    watcher = watch(dirname(configPath), (_event, filename) => {
+      if (filename !== basename(configPath)) {
+        return;
+      }
+      if (watchTimer) {
+        clearTimeout(watchTimer);
+      }
+      watchTimer = setTimeout(() => {
+        watchTimer = null;
+        console.log(`${configPath} changed, reloading config...`);
+        scheduleReload();
+      }, CONFIG_WATCH_DELAY_MS);
+    });
+    console.log(`Watching ${configPath} for changes`);
+  }
+
   // Handle graceful shutdown
   const shutdown = () => {
     console.log("\nShutting down...");
-    sseClient.stop();
+    watcher?.close();
+    for (const monitor of [...monitors]) {
+      stopMonitor(monitor);
+    }
+    actionServer?.stop();
+    healthServer?.stop();
+    notifier.stop();
+    outbox?.close();
     process.exit(0);
   };
 
   process.on("SIGINT", shutdown);
   process.on("SIGTERM", shutdown);
-
-  console.log("Starting oc-notifier...");
-  await sseClient.start();
-}
-
-function buildDesktopUrl(baseUrl: string, projectId: string, sessionId: string): string {
-  return `${baseUrl.replace(/\/$/, "")}/${projectId}/session/${sessionId}`;
 }
 
 main().catch((error) => {
@@ -0,0 +1,502 @@
+/**
+ * Session monitoring for a single OpenCode server
+ * Follows the server's event stream and turns session changes into notifications: debounced idle
+ * notifications, questions, permission requests, errors and watchdog alerts. Each server has its
+ * own monitor, so session state is never shared between servers.
+ */
+
+import { isDeepStrictEqual } from "util";
+import type { OpenCodeConfig, WatchdogConfig } from "./config.ts";
+import {
+  SSEClient,
+  type PermissionRequest,
+  type SessionError,
+  type SessionStatus,
+  type SessionStatusEvent,
+  type ToolPart,
+} from "./sse-client.ts";
+import type { Notification } from "./providers/index.ts";
+import type { Outbox } from "./outbox.ts";
+import { SessionWatchdog, type WatchdogAlert } from "./watchdog.ts";
+import { fetchCompletionSummary } from "./summary.ts";
+
+// Cleanup old sessions periodically (every 5 minutes, remove entries older than 1 hour)
+const SESSION_TTL_MS = 60 * 60 * 1000; // 1 hour
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface SessionCounts {
+  /** Sessions whose status is being tracked */
+  tracked: number;
+  /** Idle notifications waiting out their debounce delay */
+  pendingDebounces: number;
+}
+
+export interface MonitorOptions {
+  /** Delay before sending an idle notification; cancelled if the session goes busy again */
+  debounceMs: number;
+  /** Sessions that went idle while disconnected are notified if they changed at most this long ago */
+  reconcileMaxAgeMs: number;
+  watchdog?: WatchdogConfig;
+  outbox?: Outbox;
+  /** Deliver a notification to the providers */
+  send: (notification: Notification) => Promise<void>;
+}
+
+export class ServerMonitor {
+  readonly name: string;
+  readonly client: SSEClient;
+  private readonly desktopBaseUrl: string;
+  private options: MonitorOptions;
+  private watchdog?: SessionWatchdog;
+  private cleanupTimer: Timer | null = null;
+
+  // Track previous session status to detect transitions TO idle
+  // Map of sessionID -> { status, lastSeen }
+  private readonly sessionState = new Map<string, { status: string; lastSeen: number }>();
+
+  // Track pending notification timers for debouncing
+  private readonly pendingNotifications = new Map<string, Timer>();
+
+  // Track known subagent sessions to avoid re-fetching
+  private readonly knownSubagents = new Set<string>();
+
+  // Sessions that reported an error since they were last busy; the idle that follows isn't a success
+  private readonly failedSessions = new Set<string>();
+
+  // Questions and permission requests we've notified about, kept until they are answered (or the
+  // session goes idle) so a request that stays open is never announced twice
+  // Maps of question tool part ID / permission ID -> sessionID
+  private readonly notifiedQuestions = new Map<string, string>();
+  private readonly notifiedPermissions = new Map<string, string>();
+
+  constructor(server: OpenCodeConfig, options: MonitorOptions) {
+    this.name = server.name;
+    this.desktopBaseUrl = server.desktopBaseUrl;
+    this.options = options;
+    this.client = new SSEClient(server);
+
+    this.watchdog = this.createWatchdog(options.watchdog);
+
+    this.client.onConnect((disconnectedAt) => {
+      this.reconcile(disconnectedAt).catch((error) => console.error(`Failed to reconcile sessions on ${this.name}:`, error));
+    });
+    this.client.onSessionStatus((event, directory) => this.handleSessionStatus(event, directory));
+    this.client.onQuestionTool((part, directory) => {
+      this.handleQuestionTool(part, directory).catch((error) =>
+        console.error("Failed to send question notification:", error)
+      );
+    });
+    this.client.onPermissionRequest((request, directory) => {
+      this.handlePermissionRequest(request, directory).catch((error) =>
+        console.error("Failed to send permission notification:", error)
+      );
+    });
+    this.client.onRequestResolved((requestID) => {
+      this.notifiedQuestions.delete(requestID);
+      this.notifiedPermissions.delete(requestID);
+    });
+    this.client.onSessionError((sessionID, error, directory) => {
+      this.handleSessionError(sessionID, error, directory).catch((error) =>
+        console.error("Failed to send error notification:", error)
+      );
+    });
+  }
+
+  /**
+   * Connect to the server and follow its events until stopped
+   */
+  async start(): Promise<void> {
+    this.cleanupTimer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL_MS);
+    await this.client.start();
+  }
+
+  stop(): void {
+    this.client.stop();
+    this.watchdog?.stop();
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    for (const timer of this.pendingNotifications.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingNotifications.clear();
+  }
+
+  /**
+   * Apply new settings without reconnecting. Idle notifications already scheduled keep their delay,
+   * and changed watchdogs start over for sessions that are already busy.
+   */
+  reconfigure(settings: Pick<MonitorOptions, "debounceMs" | "reconcileMaxAgeMs" | "watchdog">): void {
+    if (!isDeepStrictEqual(settings.watchdog, this.options.watchdog)) {
+      this.watchdog?.stop();
+      this.watchdog = this.createWatchdog(settings.watchdog);
+    }
+    this.options = { ...this.options, ...settings };
+  }
+
+  getSessionCounts(): SessionCounts {
+    return { tracked: this.sessionState.size, pendingDebounces: this.pendingNotifications.size };
+  }
+
+  /**
+   * Resume a debounced idle notification scheduled before the last shutdown
+   */
+  resumePendingIdle(sessionID: string, directory: string, dueAt: number): void {
+    const now = Date.now();
+    console.log(`Resuming pending idle notification for session ${sessionID}`);
+    this.sessionState.set(sessionID, { status: "idle", lastSeen: now });
+    this.scheduleIdleNotification(sessionID, directory, Math.max(0, dueAt - now));
+  }
+
+  /**
+   * Catch up on status changes missed while disconnected by comparing every session's current status
+   * with the last one seen, and replaying the difference. On the first connection there is nothing to
+   * catch up on, but busy sessions are recorded so that going idle is noticed.
+   */
+  private async reconcile(disconnectedAt: number | null): Promise<void> {
+    const projects = await this.client.fetchProjects();
+    if (!projects) {
+      return;
+    }
+
+    const now = Date.now();
+    let replayed = 0;
+    for (const project of projects) {
+      const [sessions, statuses] = await Promise.all([
+        this.client.fetchSessions(project.worktree),
+        this.client.fetchSessionStatuses(project.worktree),
+      ]);
+      if (!sessions || !statuses) {
+        continue;
+      }
+
+      for (const session of sessions) {
+        // Sessions missing from the status list are idle
+        const status: SessionStatus = statuses[session.id] ?? { type: "idle" };
+        const previous = this.sessionState.get(session.id)?.status;
+        if (status.type === previous) {
+          continue;
+        }
+
+        if (status.type === "idle") {
+          const changedAt = session.updatedAt ?? 0;
+          const recent = now - changedAt <= this.options.reconcileMaxAgeMs;
+          if (previous === undefined) {
+            // Untracked sessions are only reported if they finished while we were disconnected
+            if (disconnectedAt === null || changedAt < disconnectedAt || !recent) {
+              continue;
+            }
+            this.sessionState.set(session.id, { status: "busy", lastSeen: now });
+          } else if (!recent) {
+            // Too long ago to be worth a notification; only bring the state up to date
+            this.sessionState.set(session.id, { status: "idle", lastSeen: now });
+            this.watchdog?.end(session.id);
+            continue;
+          }
+        }
+
+        replayed++;
+        this.handleSessionStatus({ type: "session.status", properties: { sessionID: session.id, status } }, project.worktree);
+      }
+    }
+
+    if (replayed > 0) {
+      console.log(`Reconciled ${replayed} session status change(s) on ${this.name}`);
+    }
+  }
+
+  private createWatchdog(config: WatchdogConfig | undefined): SessionWatchdog | undefined {
+    if (!config) {
+      return undefined;
+    }
+    return new SessionWatchdog(config, (alert) => {
+      this.sendWatchdogAlert(alert).catch((error) => console.error("Failed to send watchdog notification:", error));
+    });
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    let cleaned = 0;
+    for (const [sessionID, state] of this.sessionState) {
+      if (now - state.lastSeen > SESSION_TTL_MS) {
+        this.sessionState.delete(sessionID);
+        this.knownSubagents.delete(sessionID);
+        this.failedSessions.delete(sessionID);
+        cleaned++;
+      }
+    }
+    cleaned += this.watchdog?.prune(SESSION_TTL_MS) ?? 0;
+    if (cleaned > 0) {
+      console.log(`Cleaned up ${cleaned} stale session(s) from tracking on ${this.name}`);
+    }
+  }
+
+  /**
+   * Fields shared by every notification about a session
+   */
+  private describeSession(
+    sessionID: string,
+    directory: string,
+    sessionInfo: { title: string; projectID: string } | null
+  ): Omit<Notification, "type"> {
+    const projectId = sessionInfo?.projectID || "";
+    return {
+      server: this.name,
+      sessionId: sessionID,
+      sessionTitle: sessionInfo?.title || sessionID,
+      projectId,
+      projectDirectory: directory,
+      desktopUrl: `${this.desktopBaseUrl.replace(/\/$/, "")}/${projectId}/session/${sessionID}`,
+      timestamp: new Date(),
+    };
+  }
+
+  // Report sessions stuck retrying or busy for too long
+  private async sendWatchdogAlert(alert: WatchdogAlert): Promise<void> {
+    const { sessionID, directory } = alert;
+    if (this.knownSubagents.has(sessionID)) {
+      return;
+    }
+
+    const sessionInfo = await this.client.fetchSessionInfo(sessionID, directory);
+    if (sessionInfo?.parentSessionID) {
+      console.log(`Session ${sessionID} is a subagent, skipping ${alert.type} watchdog notification`);
+      this.knownSubagents.add(sessionID);
+      return;
+    }
+
+    console.log(`Session ${sessionID} tripped the ${alert.type} watchdog, sending notification...`);
+
+    await this.options.send({
+      type: alert.type,
+      ...this.describeSession(sessionID, directory, sessionInfo),
+      busyMs: alert.busyMs,
+      retry: alert.type === "retry" ? { attempt: alert.attempt, message: alert.message } : undefined,
+    });
+  }
+
+  // Schedule an idle notification after the debounce delay.
+  // The pending notification is persisted in the outbox so it survives a restart.
+  private scheduleIdleNotification(sessionID: string, directory: string, delayMs: number): void {
+    const { outbox } = this.options;
+
+    const timer = setTimeout(async () => {
+      this.pendingNotifications.delete(sessionID);
+
+      // Double-check the session is still idle
+      const currentState = this.sessionState.get(sessionID);
+      if (currentState?.status !== "idle") {
+        console.log(`Session ${sessionID} no longer idle, skipping notification`);
+        outbox?.removePendingIdle(sessionID);
+        return;
+      }
+
+      // Fetch session info to check if it's a subagent
+      const sessionInfo = await this.client.fetchSessionInfo(sessionID, directory);
+
+      // Skip subagent sessions (those with a parent session)
+      if (sessionInfo?.parentSessionID) {
+        console.log(`Session ${sessionID} is a subagent (parent: ${sessionInfo.parentSessionID}), skipping notification`);
+        this.knownSubagents.add(sessionID);
+        outbox?.removePendingIdle(sessionID);
+        return;
+      }
+
+      console.log(`Session ${sessionID} still idle, sending notification (project: ${directory})`);
+      console.log(`[DEBUG] sessionInfo: ${JSON.stringify(sessionInfo)}`);
+
+      // Describe what the session did; the notification is still sent without it
+      const completion = await fetchCompletionSummary(this.client, sessionID, directory);
+
+      const notification: Notification = {
+        type: "idle",
+        ...this.describeSession(sessionID, directory, sessionInfo),
+        busyMs: completion?.busyMs,
+        summary: completion?.summary,
+      };
+
+      console.log(`[DEBUG] Sending notification: ${JSON.stringify(notification)}`);
+      // notifier.send records the notification in the outbox before its first await,
+      // so there is no point at which a crash could lose or duplicate it
+      outbox?.removePendingIdle(sessionID);
+      await this.options.send(notification);
+    }, delayMs);
+
+    this.pendingNotifications.set(sessionID, timer);
+    outbox?.addPendingIdle(sessionID, this.name, directory, Date.now() + delayMs);
+  }
+
+  // Handle session status events (from all projects via /global/event)
+  private handleSessionStatus(event: SessionStatusEvent, directory: string): void {
+    const { sessionID, status } = event.properties;
+    const prevState = this.sessionState.get(sessionID);
+    const prevStatus = prevState?.status;
+    const currentStatus = status.type;
+    const now = Date.now();
+
+    console.log(`[DEBUG] Session ${sessionID} event: ${prevStatus ?? "(new)"} -> ${currentStatus} (project: ${directory}, timestamp: ${now})`);
+
+    // Update tracked status with timestamp
+    this.sessionState.set(sessionID, { status: currentStatus, lastSeen: now });
+
+    // An idle session has nothing left waiting for an answer, even if the answer's event was missed
+    if (currentStatus === "idle") {
+      for (const tracked of [this.notifiedQuestions, this.notifiedPermissions]) {
+        for (const [requestID, trackedSessionID] of tracked) {
+          if (trackedSessionID === sessionID) {
+            tracked.delete(requestID);
+          }
+        }
+      }
+    }
+
+    // Skip known subagent sessions early
+    if (this.knownSubagents.has(sessionID)) {
+      return;
+    }
+
+    this.watchdog?.update(sessionID, status, directory);
+
+    // If session goes busy/retry, cancel any pending notification
+    if (currentStatus !== "idle") {
+      this.failedSessions.delete(sessionID);
+      const pendingTimer = this.pendingNotifications.get(sessionID);
+      if (pendingTimer) {
+        clearTimeout(pendingTimer);
+        this.pendingNotifications.delete(sessionID);
+        this.options.outbox?.removePendingIdle(sessionID);
+        console.log(`Session ${sessionID} went ${currentStatus}, cancelled pending notification`);
+      } else {
+        console.log(`Session ${sessionID} status: ${currentStatus} (project: ${directory})`);
+      }
+      return;
+    }
+
+    // Only notify when transitioning TO idle (not on initial idle)
+    if (currentStatus === "idle" && prevStatus && prevStatus !== "idle") {
+      // Check if there's already a pending notification (shouldn't happen, but be safe)
+      if (this.pendingNotifications.has(sessionID)) {
+        return;
+      }
+
+      if (this.failedSessions.has(sessionID)) {
+        console.log(`Session ${sessionID} went idle after an error, skipping idle notification`);
+        return;
+      }
+
+      console.log(`Session ${sessionID} went idle, scheduling notification in ${this.options.debounceMs}ms...`);
+      this.scheduleIdleNotification(sessionID, directory, this.options.debounceMs);
+    }
+  }
+
+  // Handle question tool events
+  private async handleQuestionTool(part: ToolPart, directory: string): Promise<void> {
+    const { sessionID, state: toolState } = part;
+    // Only notify when the question tool is in "running" state (waiting for user input)
+    if (toolState.status !== "running") {
+      return;
+    }
+
+    // Skip known subagent sessions
+    if (this.knownSubagents.has(sessionID)) {
+      return;
+    }
+
+    // Extract question text from the tool input
+    const input = toolState.input as { questions?: Array<{ question?: string }> };
+    const questionText = input.questions?.[0]?.question || "OpenCode is waiting for your input";
+
+    // The part is updated while it runs; notify once per question tool call
+    if (this.notifiedQuestions.has(part.id)) {
+      return;
+    }
+    this.notifiedQuestions.set(part.id, sessionID);
+
+    console.log(`Question tool invoked in session ${sessionID}, sending notification...`);
+
+    // Fetch session info
+    const sessionInfo = await this.client.fetchSessionInfo(sessionID, directory);
+
+    // Skip subagent sessions
+    if (sessionInfo?.parentSessionID) {
+      console.log(`Session ${sessionID} is a subagent, skipping question notification`);
+      this.knownSubagents.add(sessionID);
+      return;
+    }
+
+    await this.options.send({
+      type: "question",
+      ...this.describeSession(sessionID, directory, sessionInfo),
+      question: questionText,
+    });
+  }
+
+  // Handle permission requests. Unlike questions, these are sent for subagents too:
+  // a subagent waiting for approval blocks the session that started it.
+  private async handlePermissionRequest(request: PermissionRequest, directory: string): Promise<void> {
+    // The same request is re-sent when it is updated; notify once per permission ID
+    if (this.notifiedPermissions.has(request.id)) {
+      return;
+    }
+    const { sessionID } = request;
+    this.notifiedPermissions.set(request.id, sessionID);
+
+    console.log(`Session ${sessionID} needs permission for ${request.tool}, sending notification...`);
+
+    const sessionInfo = await this.client.fetchSessionInfo(sessionID, directory);
+
+    await this.options.send({
+      type: "permission",
+      ...this.describeSession(sessionID, directory, sessionInfo),
+      permission: {
+        id: request.id,
+        tool: request.tool,
+        patterns: request.patterns,
+        title: request.title,
+      },
+    });
+  }
+
+  // Handle session errors
+  private async handleSessionError(sessionID: string, error: SessionError | undefined, directory: string): Promise<void> {
+    if (this.knownSubagents.has(sessionID)) {
+      return;
+    }
+
+    // Aborts are requested by the user, who is already at the keyboard
+    if (error?.name === "MessageAbortedError") {
+      console.log(`Session ${sessionID} was aborted, not notifying`);
+      return;
+    }
+
+    this.failedSessions.add(sessionID);
+
+    // An idle notification for this run would look like it succeeded
+    const pendingTimer = this.pendingNotifications.get(sessionID);
+    if (pendingTimer) {
+      clearTimeout(pendingTimer);
+      this.pendingNotifications.delete(sessionID);
+      this.options.outbox?.removePendingIdle(sessionID);
+    }
+
+    const errorName = error?.name ?? "UnknownError";
+    const errorMessage = error?.data?.message || "OpenCode reported an error without details";
+    console.log(`Session ${sessionID} failed with ${errorName}, sending notification...`);
+
+    const sessionInfo = await this.client.fetchSessionInfo(sessionID, directory);
+
+    // Skip subagent sessions; their parent reports the failure if it matters
+    if (sessionInfo?.parentSessionID) {
+      console.log(`Session ${sessionID} is a subagent, skipping error notification`);
+      this.knownSubagents.add(sessionID);
+      return;
+    }
+
+    await this.options.send({
+      type: "error",
+      ...this.describeSession(sessionID, directory, sessionInfo),
+      error: { name: errorName, message: errorMessage },
+    });
+  }
+}
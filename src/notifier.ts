@@ -1,40 +1,493 @@
 /**
  * Notification dispatcher - sends notifications to all enabled providers
+ * Failed sends are retried per provider with exponential backoff and jitter
+ * When an outbox is configured, deliveries are recorded so they survive restarts
  */
 
-import type { NotificationProvider, Notification } from "./providers/index.ts";
+import { createHash } from "crypto";
+import type { ProviderConfig, RetryConfig, ScheduleConfig } from "./config.ts";
+import type { DeliveryStatus, Outbox, OutboxEntry } from "./outbox.ts";
+import { createNotificationFilter, type NotificationFilter } from "./filters.ts";
+import { createScheduleCheck, type ScheduleCheck } from "./schedule.ts";
+import { TokenBucket } from "./rate-limit.ts";
+import {
+  createProvider,
+  ProviderError,
+  isRetryableError,
+  type NotificationAction,
+  type NotificationProvider,
+  type Notification,
+} from "./providers/index.ts";
+
+// How often held notifications are checked against their provider's schedule
+const HELD_CHECK_INTERVAL_MS = 60 * 1000;
+
+interface Delivery {
+  /** The outbox ID when there is an outbox, otherwise generated when the notification is sent */
+  id: string;
+  notification: Notification;
+  outboxId?: string;
+}
+
+/** Signs fresh action links for a notification */
+export type ActionSigner = (notification: Notification) => NotificationAction[] | undefined;
+
+export interface ProviderStats {
+  key: string;
+  type: string;
+  /** Notifications delivered, counting each one in a summary */
+  sent: number;
+  /** Notifications that could not be delivered after all retries, not counting those left for a later drain */
+  failed: number;
+}
+
+interface ProviderEntry {
+  /** Identifies the provider across restarts and reloads, to track deliveries in the outbox */
+  key: string;
+  sent: number;
+  failed: number;
+  provider: NotificationProvider;
+  retry: RetryConfig;
+  filter: NotificationFilter;
+  schedule?: { isOpen: ScheduleCheck; outside: ScheduleConfig["outside"] };
+  /** Notifications held outside the schedule, sent as a summary once it opens */
+  held: Delivery[];
+  rateLimiter?: TokenBucket;
+  /** Notifications collected during the current digest window */
+  digest?: { windowMs: number; pending: Delivery[]; timer: Timer | null };
+}
 
 export class Notifier {
-  private readonly providers: NotificationProvider[];
+  private providers: ProviderEntry[];
+  private readonly outbox?: Outbox;
+  private readonly signActions?: ActionSigner;
+  // "outboxId/providerKey" pairs currently being delivered, so a drain never sends them a second time
+  private readonly inFlight = new Set<string>();
+  private draining = false;
+  private restoredHeld = false;
+  private heldTimer: Timer | null = null;
+
+  /**
+   * signActions re-signs the action links of notifications sent later than they were created (from the
+   * outbox or held by a schedule), since the original links may have expired or been used by then
+   */
+  constructor(configs: ProviderConfig[], outbox?: Outbox, signActions?: ActionSigner) {
+    this.outbox = outbox;
+    this.signActions = signActions;
+    this.providers = createEntries(configs);
+    this.logProviders();
+    this.startHeldTimer();
+  }
+
+  /**
+   * Replace the providers and their settings. Counters and held notifications carry over to the
+   * provider with the same key (its id, or unchanged settings); open digests are sent right away,
+   * and so are held notifications whose provider no longer holds them.
+   */
+  reload(configs: ProviderConfig[]): void {
+    const previous = this.providers;
+    this.stop();
+    this.providers = createEntries(configs);
+
+    for (const old of previous) {
+      const entry = this.providers.find((p) => p.key === old.key);
+      if (entry) {
+        entry.sent = old.sent;
+        entry.failed = old.failed;
+      }
+
+      if (old.held.length > 0) {
+        if (!entry) {
+          this.setDeliveryStatus(old, old.held, "dropped");
+        } else if (entry.schedule?.outside === "hold") {
+          entry.held.push(...old.held);
+        } else {
+          const held = old.held.map((delivery) => ({ ...delivery, notification: this.resignActions(delivery.notification) }));
+          this.deliver(entry, held).catch(() => {
+            // Already logged by deliver
+          });
+        }
+      }
+
+      const pending = old.digest?.pending.splice(0) ?? [];
+      if (pending.length > 0) {
+        for (const { outboxId } of pending) {
+          if (outboxId) {
+            this.inFlight.delete(`${outboxId}/${old.key}`);
+          }
+        }
+        this.deliver(old, pending).catch(() => {
+          // Already logged by deliver
+        });
+      }
+    }
+
+    this.logProviders();
+    this.startHeldTimer();
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const providers = this.providers.filter((p) => p.filter(notification));
+    if (providers.length === 0) {
+      console.log(`No providers matched ${notification.type} notification for session ${notification.sessionId}`);
+      return;
+    }
+
+    const outboxId = this.outbox?.add(notification, providers.map((p) => p.key));
+    const id = outboxId ?? crypto.randomUUID();
+    await this.dispatchAll(providers.map((entry) => ({ entry, delivery: { id, notification, outboxId } })));
+  }
+
+  /**
+   * Redeliver notifications left undelivered by a previous run or a provider outage
+   */
+  async drain(): Promise<void> {
+    if (!this.outbox || this.draining) {
+      return;
+    }
+
+    this.draining = true;
+    try {
+      const pruned = this.outbox.prune();
+      if (pruned > 0) {
+        console.log(`Pruned ${pruned} expired notification(s) from outbox`);
+      }
+
+      if (!this.restoredHeld) {
+        this.restoreHeld(this.outbox);
+        this.restoredHeld = true;
+      }
+
+      for (const entry of this.outbox.undelivered("pending")) {
+        this.dropOrphaned(this.outbox, entry);
+        const providers = this.providers.filter(
+          (p) => entry.providerKeys.includes(p.key) && !this.inFlight.has(`${entry.id}/${p.key}`)
+        );
+        if (providers.length === 0) {
+          continue;
+        }
+
+        console.log(
+          `Redelivering ${entry.notification.type} notification for session ${entry.notification.sessionId} to ${providers.length} provider(s)`
+        );
+        const delivery = { id: entry.id, notification: this.resignActions(entry.notification), outboxId: entry.id };
+        await this.dispatchAll(providers.map((p) => ({ entry: p, delivery })));
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
 
-  constructor(providers: NotificationProvider[]) {
-    this.providers = providers.filter((p) => p.enabled);
+  getStats(): ProviderStats[] {
+    return this.providers.map(({ key, provider, sent, failed }) => ({ key, type: provider.type, sent, failed }));
+  }
+
+  stop(): void {
+    if (this.heldTimer) {
+      clearInterval(this.heldTimer);
+      this.heldTimer = null;
+    }
 
+    // Unsent digests stay pending in the outbox, if there is one
+    for (const entry of this.providers) {
+      if (entry.digest?.timer) {
+        clearTimeout(entry.digest.timer);
+        entry.digest.timer = null;
+      }
+    }
+  }
+
+  private logProviders(): void {
     if (this.providers.length === 0) {
       console.warn("No enabled notification providers configured");
     } else {
       console.log(
-        `Loaded ${this.providers.length} provider(s): ${this.providers.map((p) => p.type).join(", ")}`
+        `Loaded ${this.providers.length} provider(s): ${this.providers.map((p) => p.provider.type).join(", ")}`
       );
     }
   }
 
-  async send(notification: Notification): Promise<void> {
-    const results = await Promise.allSettled(
-      this.providers.map(async (provider) => {
-        try {
-          await provider.send(notification);
-          console.log(`Notification sent via ${provider.type}`);
-        } catch (error) {
-          console.error(`Failed to send notification via ${provider.type}:`, error);
-          throw error;
-        }
-      })
-    );
+  private startHeldTimer(): void {
+    if (this.providers.some((p) => p.schedule?.outside === "hold")) {
+      this.heldTimer = setInterval(() => {
+        this.flushHeld().catch((error) => console.error("Failed to send held notifications:", error));
+      }, HELD_CHECK_INTERVAL_MS);
+    }
+  }
+
+  private async dispatchAll(targets: Array<{ entry: ProviderEntry; delivery: Delivery }>): Promise<void> {
+    const results = await Promise.allSettled(targets.map(({ entry, delivery }) => this.dispatch(entry, delivery)));
 
     const failures = results.filter((r) => r.status === "rejected");
     if (failures.length > 0) {
       console.error(`${failures.length} provider(s) failed to send notification`);
     }
   }
+
+  /**
+   * Send to one provider now (or with its next digest), or drop or hold the notification
+   * when its schedule is closed
+   */
+  private async dispatch(entry: ProviderEntry, delivery: Delivery): Promise<void> {
+    if (entry.schedule && !entry.schedule.isOpen(new Date())) {
+      const { sessionId } = delivery.notification;
+      if (entry.schedule.outside === "hold") {
+        console.log(`Outside ${entry.provider.type} schedule, holding notification for session ${sessionId}`);
+        entry.held.push(delivery);
+        this.setDeliveryStatus(entry, [delivery], "held");
+      } else {
+        console.log(`Outside ${entry.provider.type} schedule, dropping notification for session ${sessionId}`);
+        this.setDeliveryStatus(entry, [delivery], "dropped");
+      }
+      return;
+    }
+
+    if (entry.digest) {
+      this.addToDigest(entry, entry.digest, delivery);
+      return;
+    }
+
+    await this.deliver(entry, [delivery]);
+  }
+
+  /**
+   * Collect notifications for the digest window that the first one opens, then send them together
+   */
+  private addToDigest(entry: ProviderEntry, digest: NonNullable<ProviderEntry["digest"]>, delivery: Delivery): void {
+    digest.pending.push(delivery);
+    if (delivery.outboxId) {
+      this.inFlight.add(`${delivery.outboxId}/${entry.key}`);
+    }
+
+    if (digest.timer) {
+      return;
+    }
+
+    digest.timer = setTimeout(() => {
+      digest.timer = null;
+      const deliveries = digest.pending.splice(0);
+      for (const { outboxId } of deliveries) {
+        if (outboxId) {
+          this.inFlight.delete(`${outboxId}/${entry.key}`);
+        }
+      }
+
+      this.deliver(entry, deliveries).catch(() => {
+        // Already logged by deliver
+      });
+    }, digest.windowMs);
+  }
+
+  /**
+   * Send held notifications as one summary per provider whose schedule has opened
+   */
+  private async flushHeld(): Promise<void> {
+    const now = new Date();
+    await Promise.allSettled(
+      this.providers
+        .filter((entry) => entry.held.length > 0 && entry.schedule?.isOpen(now))
+        .map((entry) => {
+          const deliveries = entry.held
+            .splice(0)
+            .map((delivery) => ({ ...delivery, notification: this.resignActions(delivery.notification) }));
+          console.log(`${entry.provider.type} schedule opened, sending ${deliveries.length} held notification(s)`);
+          return this.deliver(entry, deliveries);
+        })
+    );
+  }
+
+  /**
+   * Reload notifications held when the previous run shut down
+   */
+  private restoreHeld(outbox: Outbox): void {
+    for (const held of outbox.undelivered("held")) {
+      this.dropOrphaned(outbox, held);
+      for (const entry of this.providers) {
+        if (held.providerKeys.includes(entry.key)) {
+          entry.held.push({ id: held.id, notification: held.notification, outboxId: held.id });
+        }
+      }
+    }
+  }
+
+  private resignActions(notification: Notification): Notification {
+    return { ...notification, actions: this.signActions?.(notification) };
+  }
+
+  /**
+   * Drop deliveries to providers that were removed, disabled or changed without an id since the
+   * notification was queued; there is no telling which provider they belong to now
+   */
+  private dropOrphaned(outbox: Outbox, entry: OutboxEntry): void {
+    for (const key of entry.providerKeys) {
+      if (!this.providers.some((p) => p.key === key)) {
+        console.log(`Provider ${key} no longer exists, dropping its delivery of notification ${entry.id}`);
+        outbox.setStatus(entry.id, key, "dropped");
+      }
+    }
+  }
+
+  private async deliver(entry: ProviderEntry, deliveries: Delivery[]): Promise<void> {
+    const keys = deliveries.filter((d) => d.outboxId).map((d) => `${d.outboxId}/${entry.key}`);
+    for (const key of keys) {
+      this.inFlight.add(key);
+    }
+
+    // Emptied by sendWithRetry as notifications are delivered
+    const remaining = [...deliveries];
+    try {
+      await this.sendWithRetry(entry, remaining);
+      const summary = deliveries.length > 1 ? ` summary of ${deliveries.length}` : "";
+      console.log(`Notification${summary} sent via ${entry.provider.type}`);
+    } catch (error) {
+      // Transient failures stay pending so a drain picks them up once the server allows; they only
+      // count as failed when there is no outbox to redeliver them
+      if (!isRetryableError(error)) {
+        this.setDeliveryStatus(entry, remaining, "failed");
+        entry.failed += remaining.length;
+      } else if (this.outbox) {
+        const retryAfterMs = error instanceof ProviderError ? error.retryAfterMs : undefined;
+        this.setDeliveryStatus(entry, remaining, "pending", retryAfterMs !== undefined ? Date.now() + retryAfterMs : undefined);
+      } else {
+        entry.failed += remaining.length;
+      }
+      console.error(`Failed to send notification via ${entry.provider.type}:`, error);
+      throw error;
+    } finally {
+      for (const key of keys) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Send the deliveries as one summary, or one by one without sendBatch, removing each from the array
+   * once it is delivered so that retries and later drains only send the rest
+   */
+  private async sendWithRetry(entry: ProviderEntry, deliveries: Delivery[]): Promise<void> {
+    const { provider, retry } = entry;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // Only the send itself is marked in flight; a crash while waiting for the rate limiter
+        // or backing off leaves it pending
+        while (deliveries.length > 0) {
+          await entry.rateLimiter?.take();
+          let count = 1;
+          let batched = false;
+          if (deliveries.length > 1 && provider.sendBatch) {
+            this.setDeliveryStatus(entry, deliveries, "sending");
+            count = await provider.sendBatch(deliveries.map((d) => withDeliveryId(d, entry)));
+            batched = true;
+          } else {
+            this.setDeliveryStatus(entry, deliveries.slice(0, 1), "sending");
+            await provider.send(withDeliveryId(deliveries[0]!, entry));
+          }
+
+          const sent = deliveries.splice(0, Math.max(count, 1));
+          this.setDeliveryStatus(entry, sent, "delivered");
+          entry.sent += sent.length;
+          if (batched && deliveries.length > 0) {
+            // Sessions that didn't fit in the summary follow in another one
+            this.setDeliveryStatus(entry, deliveries, "pending");
+          }
+        }
+        return;
+      } catch (error) {
+        if (!isRetryableError(error)) {
+          console.warn(`${provider.type} returned a permanent error, not retrying`);
+          throw error;
+        }
+
+        if (attempt >= retry.maxAttempts) {
+          throw error;
+        }
+
+        // Retrying sooner than the server asked would only prolong the rate limiting
+        if (error instanceof ProviderError && error.retryAfterMs !== undefined && error.retryAfterMs > retry.maxDelayMs) {
+          console.warn(
+            `${provider.type} asked to wait ${(error.retryAfterMs / 1000).toFixed(0)}s, longer than retry.maxDelayMs; leaving it to a later drain`
+          );
+          throw error;
+        }
+
+        this.setDeliveryStatus(entry, deliveries, "pending");
+        const delay = getRetryDelay(error, attempt, retry);
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(
+          `Attempt ${attempt}/${retry.maxAttempts} via ${provider.type} failed (${reason}), retrying in ${(delay / 1000).toFixed(1)}s...`
+        );
+        await Bun.sleep(delay);
+      }
+    }
+  }
+
+  private setDeliveryStatus(entry: ProviderEntry, deliveries: Delivery[], status: DeliveryStatus, notBefore?: number): void {
+    for (const { outboxId } of deliveries) {
+      if (outboxId) {
+        this.outbox?.setStatus(outboxId, entry.key, status, notBefore);
+      }
+    }
+  }
+}
+
+function createEntries(configs: ProviderConfig[]): ProviderEntry[] {
+  const keys = new Set<string>();
+  return configs
+    .map((config) => ({ config, key: getProviderKey(config, keys) }))
+    .filter(({ config }) => config.enabled)
+    .map(({ config, key }) => ({
+      key,
+      sent: 0,
+      failed: 0,
+      provider: createProvider(config),
+      retry: config.retry,
+      filter: createNotificationFilter(config.filters),
+      schedule: config.schedule
+        ? { isOpen: createScheduleCheck(config.schedule), outside: config.schedule.outside }
+        : undefined,
+      held: [],
+      rateLimiter: config.rateLimit ? new TokenBucket(config.rateLimit) : undefined,
+      digest: config.digest ? { windowMs: config.digest.windowMs, pending: [], timer: null } : undefined,
+    }));
+}
+
+/**
+ * The provider's id, or its type and a hash of its settings, so the key survives reordering.
+ * Identical providers are numbered in order.
+ */
+function getProviderKey(config: ProviderConfig, taken: Set<string>): string {
+  const { enabled: _enabled, ...settings } = config;
+  const base = config.id ?? `${config.type}:${createHash("sha256").update(JSON.stringify(settings)).digest("hex").slice(0, 12)}`;
+
+  let key = base;
+  for (let n = 2; taken.has(key); n++) {
+    key = `${base}#${n}`;
+  }
+  taken.add(key);
+  return key;
+}
+
+/**
+ * Identify a notification's delivery to one provider, the same across retries, drains and restarts
+ */
+function getDeliveryId(delivery: Delivery, entry: ProviderEntry): string {
+  return createHash("sha256").update(`${delivery.id}/${entry.key}`).digest("hex").slice(0, 32);
+}
+
+function withDeliveryId(delivery: Delivery, entry: ProviderEntry): Notification {
+  return { ...delivery.notification, deliveryId: getDeliveryId(delivery, entry) };
+}
+
+/**
+ * Use the server's Retry-After if it sent one, otherwise exponential backoff with jitter
+ * so providers recovering from an outage aren't hit by every retry at once
+ */
+function getRetryDelay(error: unknown, attempt: number, retry: RetryConfig): number {
+  if (error instanceof ProviderError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+
+  const delay = Math.min(retry.initialDelayMs * 2 ** (attempt - 1), retry.maxDelayMs);
+  return delay / 2 + Math.random() * (delay / 2);
 }
@@ -0,0 +1,197 @@
+/**
+ * Durable outbox for notifications, backed by bun:sqlite
+ *
+ * Notifications are written before they are sent and marked delivered per provider,
+ * so undelivered notifications can be drained after a restart. Debounced idle
+ * notifications that haven't fired yet are persisted too.
+ */
+
+import { Database } from "bun:sqlite";
+import type { OutboxConfig } from "./config.ts";
+import type { Notification } from "./providers/index.ts";
+
+/**
+ * pending: not yet delivered, will be retried on the next drain (once its not-before time has passed, if it has one)
+ * sending: a send is in flight; left over after a crash it is never retried (at most once)
+ * held: waiting for the provider's schedule to open
+ * delivered / failed / dropped: final states
+ */
+export type DeliveryStatus = "pending" | "sending" | "held" | "delivered" | "failed" | "dropped";
+
+export interface OutboxEntry {
+  id: string;
+  notification: Notification;
+  /** Keys of the providers this notification still has to be delivered to */
+  providerKeys: string[];
+}
+
+export interface PendingIdle {
+  sessionID: string;
+  /** Name of the OpenCode server, empty for entries written before several servers were supported */
+  server: string;
+  directory: string;
+  dueAt: number;
+}
+
+export class Outbox {
+  private readonly db: Database;
+  private readonly maxAgeMs: number;
+
+  constructor(config: OutboxConfig) {
+    this.db = new Database(config.path, { create: true });
+    this.maxAgeMs = config.maxAgeMs;
+
+    this.db.run("PRAGMA journal_mode = WAL");
+    this.db.run("PRAGMA foreign_keys = ON");
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id TEXT PRIMARY KEY,
+        payload TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS deliveries (
+        notification_id TEXT NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+        provider TEXT NOT NULL,
+        status TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (notification_id, provider)
+      )
+    `);
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS pending_idle (
+        session_id TEXT PRIMARY KEY,
+        directory TEXT NOT NULL,
+        due_at INTEGER NOT NULL
+      )
+    `);
+
+    // Added when monitoring several servers became possible
+    const columns = this.db.query<{ name: string }, []>("PRAGMA table_info(pending_idle)").all();
+    if (!columns.some((column) => column.name === "server")) {
+      this.db.run("ALTER TABLE pending_idle ADD COLUMN server TEXT NOT NULL DEFAULT ''");
+    }
+
+    // Added when Retry-After delays longer than a provider's backoff cap started being honoured
+    const deliveryColumns = this.db.query<{ name: string }, []>("PRAGMA table_info(deliveries)").all();
+    if (!deliveryColumns.some((column) => column.name === "not_before")) {
+      this.db.run("ALTER TABLE deliveries ADD COLUMN not_before INTEGER");
+    }
+  }
+
+  /**
+   * Record a notification with a pending delivery for each provider, returning its ID.
+   * Action links are not stored: they are signed again when the notification is redelivered.
+   */
+  add(notification: Notification, providerKeys: string[]): string {
+    const id = crypto.randomUUID();
+    const now = Date.now();
+    const { actions: _actions, ...payload } = notification;
+
+    this.db.transaction(() => {
+      this.db
+        .query("INSERT INTO notifications (id, payload, created_at) VALUES (?, ?, ?)")
+        .run(id, JSON.stringify(payload), now);
+
+      const insertDelivery = this.db.query(
+        "INSERT INTO deliveries (notification_id, provider, status, updated_at) VALUES (?, ?, 'pending', ?)"
+      );
+      for (const key of providerKeys) {
+        insertDelivery.run(id, key, now);
+      }
+    })();
+
+    return id;
+  }
+
+  /**
+   * Change a delivery's state; notBefore (a timestamp) keeps a pending delivery out of drains until then
+   */
+  setStatus(id: string, providerKey: string, status: DeliveryStatus, notBefore?: number): void {
+    this.db
+      .query("UPDATE deliveries SET status = ?, not_before = ?, updated_at = ? WHERE notification_id = ? AND provider = ?")
+      .run(status, notBefore ?? null, Date.now(), id, providerKey);
+  }
+
+  /**
+   * Notifications younger than maxAgeMs with deliveries in the given state that are due
+   */
+  undelivered(status: "pending" | "held"): OutboxEntry[] {
+    const now = Date.now();
+    const rows = this.db
+      .query<{ id: string; payload: string; provider: string }, [string, number, number]>(`
+        SELECT n.id, n.payload, d.provider
+        FROM notifications n
+        JOIN deliveries d ON d.notification_id = n.id
+        WHERE d.status = ? AND n.created_at >= ? AND (d.not_before IS NULL OR d.not_before <= ?)
+        ORDER BY n.created_at
+      `)
+      .all(status, now - this.maxAgeMs, now);
+
+    const entries = new Map<string, OutboxEntry>();
+    for (const row of rows) {
+      let entry = entries.get(row.id);
+      if (!entry) {
+        entry = { id: row.id, notification: parseNotification(row.payload), providerKeys: [] };
+        entries.set(row.id, entry);
+      }
+      entry.providerKeys.push(row.provider);
+    }
+
+    return [...entries.values()];
+  }
+
+  /**
+   * Mark deliveries interrupted by a crash as failed so they are never sent twice.
+   * Only call this on startup, before any sends are in flight.
+   */
+  abandonInFlight(): number {
+    return this.db
+      .query("UPDATE deliveries SET status = 'failed', updated_at = ? WHERE status = 'sending'")
+      .run(Date.now()).changes;
+  }
+
+  /**
+   * Remove notifications older than maxAgeMs, whatever their delivery state
+   */
+  prune(): number {
+    const cutoff = Date.now() - this.maxAgeMs;
+    return this.db.query("DELETE FROM notifications WHERE created_at < ?").run(cutoff).changes;
+  }
+
+  addPendingIdle(sessionID: string, server: string, directory: string, dueAt: number): void {
+    this.db
+      .query("INSERT OR REPLACE INTO pending_idle (session_id, server, directory, due_at) VALUES (?, ?, ?, ?)")
+      .run(sessionID, server, directory, dueAt);
+  }
+
+  removePendingIdle(sessionID: string): void {
+    this.db.query("DELETE FROM pending_idle WHERE session_id = ?").run(sessionID);
+  }
+
+  /**
+   * Debounced idle notifications that were scheduled before the last shutdown
+   */
+  pendingIdle(): PendingIdle[] {
+    const cutoff = Date.now() - this.maxAgeMs;
+    this.db.query("DELETE FROM pending_idle WHERE due_at < ?").run(cutoff);
+
+    return this.db
+      .query<{ session_id: string; server: string; directory: string; due_at: number }, []>(
+        "SELECT session_id, server, directory, due_at FROM pending_idle ORDER BY due_at"
+      )
+      .all()
+      .map((row) => ({ sessionID: row.session_id, server: row.server, directory: row.directory, dueAt: row.due_at }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function parseNotification(payload: string): Notification {
+  const data = JSON.parse(payload) as Omit<Notification, "timestamp" | "server"> & { timestamp: string; server?: string };
+  // Notifications written before several servers were supported have no server name
+  return { ...data, server: data.server ?? "", timestamp: new Date(data.timestamp) };
+}
@@ -0,0 +1,241 @@
+/**
+ * Local desktop notification provider
+ * Raises native notifications via the freedesktop Notifications D-Bus interface,
+ * falling back to notify-send when the session bus is unavailable
+ */
+
+import dbus, { type ClientInterface, type MessageBus } from "dbus-next";
+import type { DesktopProviderConfig } from "../config.ts";
+import type { Notification, NotificationProvider, NotificationType } from "./types.ts";
+import { createFormatter, getDetail, getMostUrgentType, getProjectName, type MessageFormatter } from "./format.ts";
+
+const NOTIFICATIONS_SERVICE = "org.freedesktop.Notifications";
+const NOTIFICATIONS_PATH = "/org/freedesktop/Notifications";
+
+// Urgency levels from the Desktop Notifications Specification
+const URGENCY_NORMAL = 1;
+const URGENCY_CRITICAL = 2;
+
+// Anything that blocks the session until someone acts is critical
+const URGENCIES: Record<NotificationType, number> = {
+  idle: URGENCY_NORMAL,
+  busy: URGENCY_NORMAL,
+  retry: URGENCY_CRITICAL,
+  question: URGENCY_CRITICAL,
+  permission: URGENCY_CRITICAL,
+  error: URGENCY_CRITICAL,
+};
+
+// How long to wait for notify-send to fail before assuming the notification is showing
+const NOTIFY_SEND_STARTUP_MS = 1000;
+
+// A stale bus address never answers, so D-Bus calls give up after this long
+const DBUS_TIMEOUT_MS = 5000;
+
+// The project is already in the title, so it's left out of the body
+const DESKTOP_TEMPLATES = {
+  fields: [
+    { name: "Session", value: "{{sessionTitle}}" },
+    { name: "Status", value: "{{status}}" },
+  ],
+};
+
+interface NotificationsInterface extends ClientInterface {
+  Notify(
+    appName: string,
+    replacesId: number,
+    appIcon: string,
+    summary: string,
+    body: string,
+    actions: string[],
+    hints: Record<string, InstanceType<typeof dbus.Variant>>,
+    expireTimeout: number,
+  ): Promise<number>;
+}
+
+export class DesktopProvider implements NotificationProvider {
+  readonly type = "desktop";
+  readonly enabled: boolean;
+  private readonly appName: string;
+  private readonly openCommand: string;
+  private readonly format: MessageFormatter;
+  private bus: MessageBus | null = null;
+  private notifications: NotificationsInterface | null = null;
+  // Map of D-Bus notification ID -> desktop URL to open when clicked
+  private readonly pendingUrls = new Map<number, string>();
+
+  constructor(config: DesktopProviderConfig) {
+    this.enabled = config.enabled;
+    this.appName = config.appName ?? "oc-notifier";
+    this.openCommand = config.openCommand ?? "xdg-open";
+    this.format = createFormatter(config.templates, DESKTOP_TEMPLATES);
+  }
+
+  async send(notification: Notification): Promise<number | undefined> {
+    const title = this.format.title(notification);
+    const urgency = URGENCIES[notification.type];
+    const lines = this.format.fields(notification).map((field) => `${field.name}: ${field.value}`);
+
+    // Add detail text (question, error, last message, ...) if present
+    const detail = getDetail(notification);
+    if (detail) {
+      lines.push("", notification.question ? detail.text : `${detail.label}: ${detail.text}`);
+    }
+
+    // Notification servers may interpret the body as markup
+    await this.notify(title, escapeMarkup(lines.join("\n")), urgency, notification.desktopUrl);
+    return undefined;
+  }
+
+  /**
+   * Batches are shown as one notification; clicking it opens the first session
+   */
+  async sendBatch(notifications: Notification[]): Promise<number> {
+    const urgency = URGENCIES[getMostUrgentType(notifications)];
+    const lines = notifications.map(
+      (n) => `${getProjectName(n)}: ${n.sessionTitle || n.sessionId} (${this.format.status(n)})`
+    );
+
+    await this.notify(this.format.batchTitle(notifications), escapeMarkup(lines.join("\n")), urgency, notifications[0]!.desktopUrl);
+    return notifications.length;
+  }
+
+  private async notify(title: string, body: string, urgency: number, url: string): Promise<void> {
+    try {
+      await this.sendDBus(title, body, urgency, url);
+    } catch (error) {
+      console.warn(`Desktop notification via D-Bus failed, falling back to notify-send:`, error);
+      this.disconnect();
+      await this.sendNotifySend(title, body, urgency, url);
+    }
+  }
+
+  private async sendDBus(title: string, body: string, urgency: number, url: string): Promise<void> {
+    const notifications = await this.getNotificationsInterface();
+
+    const id = await withTimeout(notifications.Notify(
+      this.appName,
+      0, // replaces_id
+      "", // app_icon
+      title,
+      body,
+      ["default", "Open in OpenCode Desktop"],
+      { urgency: new dbus.Variant("y", urgency) },
+      -1, // expire_timeout: server default
+    ), "Notify");
+
+    this.pendingUrls.set(id, url);
+  }
+
+  private async getNotificationsInterface(): Promise<NotificationsInterface> {
+    if (this.notifications) {
+      return this.notifications;
+    }
+
+    const bus = dbus.sessionBus();
+    // Connection errors are only emitted on the bus, so they also fail the connection attempt below
+    let rejectConnect: (error: unknown) => void = () => {};
+    const connectFailed = new Promise<never>((_, reject) => {
+      rejectConnect = reject;
+    });
+    // Drop the bus on errors so the next send reconnects
+    bus.on("error", (error: unknown) => {
+      console.error(`D-Bus session bus error:`, error);
+      rejectConnect(error);
+      if (this.bus === bus) {
+        this.disconnect();
+      }
+    });
+    this.bus = bus;
+
+    const proxy = await withTimeout(
+      Promise.race([bus.getProxyObject(NOTIFICATIONS_SERVICE, NOTIFICATIONS_PATH), connectFailed]),
+      "Connecting to the session bus"
+    );
+    const notifications = proxy.getInterface<NotificationsInterface>(NOTIFICATIONS_SERVICE);
+
+    notifications.on("ActionInvoked", (id: number, actionKey: string) => {
+      const url = this.pendingUrls.get(id);
+      if (url && actionKey === "default") {
+        this.openUrl(url);
+      }
+    });
+
+    notifications.on("NotificationClosed", (id: number) => {
+      this.pendingUrls.delete(id);
+    });
+
+    this.notifications = notifications;
+    return notifications;
+  }
+
+  private disconnect(): void {
+    const bus = this.bus;
+    this.bus = null;
+    this.notifications = null;
+    this.pendingUrls.clear();
+    bus?.disconnect();
+  }
+
+  private async sendNotifySend(title: string, body: string, urgency: number, url: string): Promise<void> {
+    const proc = Bun.spawn(
+      [
+        "notify-send",
+        `--app-name=${this.appName}`,
+        `--urgency=${urgency === URGENCY_CRITICAL ? "critical" : "normal"}`,
+        "--action=default=Open in OpenCode Desktop",
+        // Keep running until the notification is closed so we learn which action was invoked
+        "--wait",
+        title,
+        body,
+      ],
+      { stdout: "pipe", stderr: "pipe" },
+    );
+
+    // The invoked action key is printed on stdout when the notification is clicked
+    const clicked = new Response(proc.stdout).text().then((output) => {
+      if (output.trim() === "default") {
+        this.openUrl(url);
+      }
+    });
+
+    const exitedEarly = await Promise.race([
+      proc.exited.then(() => true),
+      Bun.sleep(NOTIFY_SEND_STARTUP_MS).then(() => false),
+    ]);
+
+    if (exitedEarly && proc.exitCode !== 0) {
+      const text = await new Response(proc.stderr).text();
+      throw new Error(`notify-send failed: ${proc.exitCode} ${text.trim()}`);
+    }
+
+    clicked.catch((error) => {
+      console.error(`Failed to read notify-send output:`, error);
+    });
+  }
+
+  private openUrl(url: string): void {
+    try {
+      Bun.spawn([this.openCommand, url], { stdout: "ignore", stderr: "ignore" });
+    } catch (error) {
+      console.error(`Failed to open ${url} with ${this.openCommand}:`, error);
+    }
+  }
+}
+
+function escapeMarkup(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+async function withTimeout<T>(promise: Promise<T>, action: string): Promise<T> {
+  let timer: Timer | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${action} timed out after ${DBUS_TIMEOUT_MS / 1000}s`)), DBUS_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -3,61 +3,68 @@
  */
 
 import type { DiscordProviderConfig } from "../config.ts";
-import type { Notification, NotificationProvider } from "./types.ts";
+import type { Notification, NotificationProvider, NotificationType } from "./types.ts";
+import { ProviderError } from "./errors.ts";
+import {
+  createFormatter,
+  getDetail,
+  getMostUrgentType,
+  getProjectName,
+  getSummaryFields,
+  truncate,
+  type MessageFormatter,
+} from "./format.ts";
+
+// Discord allows at most 25 fields per embed, and 6000 characters across an embed's title,
+// description, fields and footer
+const MAX_BATCH_FIELDS = 25;
+const MAX_EMBED_CHARS = 6000;
+
+// Blurple for idle, grey for busy, dark orange for retry, orange for question,
+// yellow for permission, red for error
+const COLORS: Record<NotificationType, number> = {
+  idle: 0x5865f2,
+  busy: 0x99aab5,
+  retry: 0xe67e22,
+  question: 0xffa500,
+  permission: 0xfee75c,
+  error: 0xed4245,
+};
 
 export class DiscordProvider implements NotificationProvider {
   readonly type = "discord";
   readonly enabled: boolean;
   private readonly webhookUrl: string;
+  private readonly format: MessageFormatter;
 
   constructor(config: DiscordProviderConfig) {
     this.enabled = config.enabled;
     this.webhookUrl = config.webhookUrl;
+    this.format = createFormatter(config.templates);
   }
 
-  async send(notification: Notification): Promise<void> {
-    // Extract just the project folder name from the full path
-    const projectName = notification.projectDirectory.split("/").pop() || notification.projectDirectory;
-
-    const isQuestion = notification.type === "question";
-    const title = isQuestion
-      ? `Question Pending: ${projectName}`
-      : `Session Idle: ${projectName}`;
-    const status = isQuestion ? "Waiting for your response" : "Ready for input";
-    const color = isQuestion ? 0xffa500 : 0x5865f2; // Orange for question, blurple for idle
-
-    const fields = [
-      {
-        name: "Project",
-        value: projectName,
-        inline: true,
-      },
-      {
-        name: "Session",
-        value: notification.sessionTitle || notification.sessionId,
-        inline: true,
-      },
-      {
-        name: "Status",
-        value: status,
-        inline: true,
-      },
-    ];
+  async send(notification: Notification): Promise<number | undefined> {
+    const title = this.format.title(notification);
+
+    const fields = [...this.format.fields(notification), ...getSummaryFields(notification)].map((field) => ({
+      name: truncate(field.name, 256),
+      value: truncate(field.value, 1024),
+      inline: true,
+    }));
 
-    // Add question text if present
-    if (notification.question) {
+    // Add detail text (question, error, last message, ...) if present
+    const detail = getDetail(notification);
+    if (detail) {
       fields.push({
-        name: "Question",
-        value: notification.question.length > 1024
-          ? notification.question.slice(0, 1021) + "..."
-          : notification.question,
+        name: truncate(detail.label, 256),
+        value: truncate(detail.text, 1024),
         inline: false,
       });
     }
 
     const embed = {
-      title,
-      color,
+      title: truncate(title, 256),
+      color: COLORS[notification.type],
       fields,
       url: notification.desktopUrl,
       timestamp: notification.timestamp.toISOString(),
@@ -78,11 +85,62 @@ export class DiscordProvider implements NotificationProvider {
               label: "Open in OpenCode Desktop",
               url: notification.desktopUrl,
             },
+            // An action row holds at most 5 buttons
+            ...(notification.actions ?? []).slice(0, 4).map((action) => ({
+              type: 2,
+              style: 5,
+              label: truncate(action.label, 80),
+              url: action.url,
+            })),
           ],
         },
       ],
     };
 
+    return this.post(body);
+  }
+
+  async sendBatch(notifications: Notification[]): Promise<number> {
+    const footer = "OpenCode";
+
+    // Sessions that don't fit in one embed are left for a follow-up message
+    let remaining = MAX_EMBED_CHARS - 256 - footer.length;
+    const fields: Array<{ name: string; value: string; inline: boolean }> = [];
+    for (const notification of notifications.slice(0, MAX_BATCH_FIELDS)) {
+      const lines = [`[${notification.sessionTitle || notification.sessionId}](${notification.desktopUrl})`];
+      const detail = getDetail(notification);
+      if (detail) {
+        lines.push(truncate(detail.text, 200));
+      }
+      const field = {
+        name: truncate(`${getProjectName(notification)} — ${this.format.status(notification)}`, 256),
+        value: truncate(lines.join("\n"), 1024),
+        inline: false,
+      };
+
+      remaining -= field.name.length + field.value.length;
+      if (remaining < 0 && fields.length > 0) {
+        break;
+      }
+      fields.push(field);
+    }
+
+    const shown = notifications.slice(0, fields.length);
+    const embed = {
+      title: truncate(this.format.batchTitle(shown), 256),
+      color: COLORS[getMostUrgentType(shown)],
+      fields,
+      timestamp: new Date().toISOString(),
+      footer: {
+        text: footer,
+      },
+    };
+
+    await this.post({ embeds: [embed] });
+    return shown.length;
+  }
+
+  private async post(body: unknown): Promise<number> {
     const response = await fetch(this.webhookUrl, {
       method: "POST",
       headers: {
@@ -92,8 +150,9 @@ export class DiscordProvider implements NotificationProvider {
     });
 
     if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Discord webhook failed: ${response.status} ${text}`);
+      throw await ProviderError.fromResponse("Discord webhook failed", response);
     }
+
+    return response.status;
   }
 }
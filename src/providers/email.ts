@@ -0,0 +1,158 @@
+/**
+ * SMTP email notification provider
+ * Sends multipart emails with plain-text and HTML bodies
+ */
+
+import nodemailer, { type Transporter } from "nodemailer";
+import type { EmailProviderConfig } from "../config.ts";
+import type { Notification, NotificationProvider } from "./types.ts";
+import { ProviderError } from "./errors.ts";
+import { createFormatter, escapeHtml, getDetail, getProjectName, type MessageFormatter } from "./format.ts";
+
+export class EmailProvider implements NotificationProvider {
+  readonly type = "email";
+  readonly enabled: boolean;
+  private readonly from: string;
+  private readonly to: string[];
+  private readonly transporter: Transporter;
+  private readonly format: MessageFormatter;
+
+  constructor(config: EmailProviderConfig) {
+    this.enabled = config.enabled;
+    this.from = config.from;
+    this.to = config.to;
+    this.format = createFormatter(config.templates);
+
+    const security = config.security ?? "starttls";
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port ?? (security === "tls" ? 465 : 587),
+      // "tls" connects over TLS from the start; "starttls" upgrades a plain connection and fails if it can't
+      secure: security === "tls",
+      requireTLS: security === "starttls",
+      ignoreTLS: security === "none",
+      auth: config.username
+        ? { user: config.username, pass: config.password }
+        : undefined,
+    });
+  }
+
+  async send(notification: Notification): Promise<number | undefined> {
+    const title = this.format.title(notification);
+    const fields: Array<[string, string]> = this.format.fields(notification).map((field) => [field.name, field.value]);
+
+    // Add detail text (question, error, last message, ...) if present
+    const detail = getDetail(notification);
+    if (detail) {
+      fields.push([detail.label, detail.text]);
+    }
+
+    const text = [
+      title,
+      "",
+      ...fields.map(([name, value]) => `${name}: ${value}`),
+      "",
+      `Open in OpenCode Desktop: ${notification.desktopUrl}`,
+      "",
+      `OpenCode | ${notification.projectDirectory}`,
+      notification.timestamp.toISOString(),
+    ].join("\n");
+
+    const rows = fields
+      .map(([name, value]) =>
+        `<tr><th align="left" valign="top" style="padding:4px 12px 4px 0">${escapeHtml(name)}</th>` +
+        `<td style="padding:4px 0;white-space:pre-wrap">${escapeHtml(value)}</td></tr>`
+      )
+      .join("\n");
+
+    const html = `<!DOCTYPE html>
+<html>
+<body style="font-family:sans-serif">
+<h2>${escapeHtml(title)}</h2>
+<table cellspacing="0" cellpadding="0">
+${rows}
+</table>
+<p><a href="${escapeHtml(notification.desktopUrl)}">Open in OpenCode Desktop</a></p>
+<p style="color:#888;font-size:small">OpenCode | ${escapeHtml(notification.projectDirectory)}<br>${notification.timestamp.toISOString()}</p>
+</body>
+</html>`;
+
+    return this.sendMail(title, text, html);
+  }
+
+  async sendBatch(notifications: Notification[]): Promise<number> {
+    const title = this.format.batchTitle(notifications);
+
+    const textEntries = notifications.map((notification) => {
+      const lines = [
+        `${getProjectName(notification)}: ${notification.sessionTitle || notification.sessionId}`,
+        `  Status: ${this.format.status(notification)}`,
+      ];
+      const detail = getDetail(notification);
+      if (detail) {
+        lines.push(`  ${detail.label}: ${detail.text}`);
+      }
+      lines.push(`  ${notification.desktopUrl}`);
+      return lines.join("\n");
+    });
+
+    const text = [title, "", textEntries.join("\n\n")].join("\n");
+
+    const rows = notifications
+      .map((notification) => {
+        const detail = getDetail(notification);
+        const question = detail
+          ? `<br><span style="white-space:pre-wrap">${escapeHtml(detail.text)}</span>`
+          : "";
+        return `<tr>` +
+          `<td valign="top" style="padding:4px 12px 4px 0">${escapeHtml(getProjectName(notification))}</td>` +
+          `<td valign="top" style="padding:4px 12px 4px 0"><a href="${escapeHtml(notification.desktopUrl)}">` +
+          `${escapeHtml(notification.sessionTitle || notification.sessionId)}</a>${question}</td>` +
+          `<td valign="top" style="padding:4px 0">${escapeHtml(this.format.status(notification))}</td>` +
+          `</tr>`;
+      })
+      .join("\n");
+
+    const html = `<!DOCTYPE html>
+<html>
+<body style="font-family:sans-serif">
+<h2>${escapeHtml(title)}</h2>
+<table cellspacing="0" cellpadding="0">
+<tr><th align="left">Project</th><th align="left">Session</th><th align="left">Status</th></tr>
+${rows}
+</table>
+</body>
+</html>`;
+
+    await this.sendMail(title, text, html);
+    return notifications.length;
+  }
+
+  /**
+   * Send a message, returning the SMTP reply code when the server gave one
+   */
+  private async sendMail(subject: string, text: string, html: string): Promise<number | undefined> {
+    let info;
+    try {
+      info = await this.transporter.sendMail({
+        from: this.from,
+        to: this.to,
+        subject,
+        text,
+        html,
+      });
+    } catch (error) {
+      // SMTP reply codes: 4xx are transient failures, 5xx are permanent
+      const responseCode = (error as { responseCode?: number }).responseCode;
+      throw new ProviderError(`Email send failed: ${error instanceof Error ? error.message : String(error)}`, {
+        status: responseCode,
+        retryable: responseCode === undefined || responseCode < 500,
+        cause: error,
+      });
+    }
+
+    // e.g. "250 2.0.0 OK"
+    const code = Number.parseInt(String(info.response ?? ""), 10);
+    return Number.isNaN(code) ? undefined : code;
+  }
+}
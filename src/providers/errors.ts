@@ -0,0 +1,73 @@
+/**
+ * Typed provider errors carrying enough detail for the dispatcher to decide whether to retry
+ */
+
+export interface ProviderErrorOptions {
+  /** HTTP (or protocol) status code returned by the remote service */
+  status?: number;
+  /** Delay requested by the remote service before trying again */
+  retryAfterMs?: number;
+  /** Overrides the status-based classification */
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+export class ProviderError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "ProviderError";
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable ?? (options.status === undefined || isRetryableStatus(options.status));
+  }
+
+  /**
+   * Build an error from a failed HTTP response, consuming its body for the message
+   */
+  static async fromResponse(message: string, response: Response): Promise<ProviderError> {
+    const text = await response.text().catch(() => "");
+    return new ProviderError(`${message}: ${response.status} ${text}`, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+    });
+  }
+}
+
+/**
+ * 408, 429 and 5xx are transient; any other 4xx means the request itself is wrong
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Errors that aren't ProviderErrors (network failures, timeouts) are assumed to be transient
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ProviderError ? error.retryable : true;
+}
+
+/**
+ * Parse a Retry-After header, which is either a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
@@ -0,0 +1,314 @@
+/**
+ * Shared formatting helpers for notification providers
+ * Titles, status lines and fields are rendered from {{placeholder}} templates, configurable globally and per provider
+ */
+
+import type { TemplateConfig, TemplateField, TypedTemplate } from "../config.ts";
+import type { Notification, NotificationPermission, NotificationType } from "./types.ts";
+
+/** Placeholders available in notification templates */
+export const TEMPLATE_PLACEHOLDERS = [
+  "type",
+  "title",
+  "status",
+  "server",
+  "projectName",
+  "projectDirectory",
+  "projectId",
+  "sessionId",
+  "sessionTitle",
+  "question",
+  "errorName",
+  "errorMessage",
+  "permissionTool",
+  "permissionPattern",
+  "retryAttempt",
+  "retryMessage",
+  "busyDuration",
+  "excerpt",
+  "tokens",
+  "cost",
+  "filesChanged",
+  "desktopUrl",
+  "timestamp",
+] as const;
+
+/** Placeholders available in batch titles */
+export const BATCH_TEMPLATE_PLACEHOLDERS = ["count"] as const;
+
+export type TemplateValues = Record<string, string | undefined>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const EXACT_PLACEHOLDER_PATTERN = /^\{\{\s*(\w+)\s*\}\}$/;
+
+const DEFAULT_TITLES: Record<NotificationType, string> = {
+  idle: "Session Idle: {{projectName}}",
+  busy: "Still Busy: {{projectName}}",
+  retry: "Stuck Retrying: {{projectName}}",
+  question: "Question Pending: {{projectName}}",
+  permission: "Permission Needed: {{projectName}}",
+  error: "Session Error: {{projectName}}",
+};
+
+const DEFAULT_STATUSES: Record<NotificationType, string> = {
+  idle: "Ready for input",
+  busy: "Busy for {{busyDuration}}",
+  retry: "Retry attempt {{retryAttempt}}",
+  question: "Waiting for your response",
+  permission: "Waiting for approval",
+  error: "Stopped with an error",
+};
+
+// Least to most urgent, used to style summaries after their most pressing notification
+const URGENCY_ORDER: NotificationType[] = ["idle", "busy", "retry", "question", "permission", "error"];
+
+const DEFAULT_FIELDS: TemplateField[] = [
+  { name: "Project", value: "{{projectName}}" },
+  { name: "Session", value: "{{sessionTitle}}" },
+  { name: "Status", value: "{{status}}" },
+];
+
+const DEFAULT_BATCH_TITLE = "{{count}} OpenCode sessions need attention";
+
+export interface MessageFormatter {
+  title(notification: Notification): string;
+  status(notification: Notification): string;
+  fields(notification: Notification): Array<{ name: string; value: string }>;
+  batchTitle(notifications: Notification[]): string;
+  /** All placeholder values for a notification, including its rendered title and status */
+  values(notification: Notification): TemplateValues;
+}
+
+/**
+ * Create a formatter from configured templates, falling back to the provider's defaults and then the built-in ones
+ */
+export function createFormatter(templates: TemplateConfig = {}, defaults: TemplateConfig = {}): MessageFormatter {
+  const title = templates.title ?? defaults.title;
+  const status = templates.status ?? defaults.status;
+  const fields = templates.fields ?? defaults.fields ?? DEFAULT_FIELDS;
+  const batchTitle = templates.batchTitle ?? defaults.batchTitle ?? DEFAULT_BATCH_TITLE;
+
+  const values = (notification: Notification): TemplateValues => {
+    const base = getTemplateValues(notification);
+    base.status = renderTemplate(selectTemplate(status, DEFAULT_STATUSES, notification.type), base);
+    base.title = renderTemplate(selectTemplate(title, DEFAULT_TITLES, notification.type), base);
+    return base;
+  };
+
+  return {
+    title: (notification) => values(notification).title!,
+    status: (notification) => values(notification).status!,
+    fields: (notification) => {
+      const v = values(notification);
+      return fields.map((field) => ({ name: renderTemplate(field.name, v), value: renderTemplate(field.value, v) }));
+    },
+    batchTitle: (notifications) => renderTemplate(batchTitle, { count: String(notifications.length) }),
+    values,
+  };
+}
+
+/**
+ * Placeholder values taken directly from a notification (title and status are added by the formatter)
+ */
+function getTemplateValues(notification: Notification): TemplateValues {
+  return {
+    type: notification.type,
+    server: notification.server,
+    projectName: getProjectName(notification),
+    projectDirectory: notification.projectDirectory,
+    projectId: notification.projectId,
+    sessionId: notification.sessionId,
+    sessionTitle: notification.sessionTitle || notification.sessionId,
+    question: notification.question,
+    errorName: notification.error?.name,
+    errorMessage: notification.error?.message,
+    permissionTool: notification.permission?.tool,
+    permissionPattern: notification.permission ? getPermissionText(notification.permission) : undefined,
+    retryAttempt: notification.retry?.attempt.toString(),
+    retryMessage: notification.retry?.message,
+    busyDuration: notification.busyMs !== undefined ? formatDuration(notification.busyMs) : undefined,
+    excerpt: notification.summary?.excerpt,
+    tokens: notification.summary?.tokens ? formatTokens(notification.summary.tokens) : undefined,
+    cost: notification.summary?.cost !== undefined ? formatCost(notification.summary.cost) : undefined,
+    filesChanged: notification.summary?.filesChanged?.toString(),
+    desktopUrl: notification.desktopUrl,
+    timestamp: notification.timestamp.toISOString(),
+  };
+}
+
+function selectTemplate(
+  template: TypedTemplate | undefined,
+  defaults: Record<NotificationType, string>,
+  type: NotificationType
+): string {
+  if (typeof template === "string") {
+    return template;
+  }
+  return template?.[type] ?? defaults[type];
+}
+
+/**
+ * Replace {{placeholder}} occurrences with their values; missing values render as empty strings
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name] ?? "");
+}
+
+/**
+ * Render every string inside a JSON value. A string consisting of a single placeholder
+ * is replaced by the raw value, so missing values become null rather than "".
+ */
+export function renderJsonTemplate(template: unknown, values: TemplateValues): unknown {
+  if (typeof template === "string") {
+    const exact = EXACT_PLACEHOLDER_PATTERN.exec(template);
+    return exact ? (values[exact[1]!] ?? null) : renderTemplate(template, values);
+  }
+
+  if (Array.isArray(template)) {
+    return template.map((item) => renderJsonTemplate(item, values));
+  }
+
+  if (typeof template === "object" && template !== null) {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, renderJsonTemplate(value, values)]));
+  }
+
+  return template;
+}
+
+/**
+ * Names of the placeholders used in a template
+ */
+export function getPlaceholders(template: string): string[] {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]!);
+}
+
+/**
+ * Free-form text that accompanies a notification (the question asked, the tool call awaiting
+ * approval, the reason for retrying, the error reported or the agent's last message), shown separately
+ * from the templated fields
+ */
+export function getDetail(notification: Notification): { label: string; text: string } | undefined {
+  if (notification.question) {
+    return { label: "Question", text: notification.question };
+  }
+  if (notification.permission) {
+    return { label: `Permission: ${notification.permission.tool}`, text: getPermissionText(notification.permission) };
+  }
+  if (notification.retry) {
+    return { label: "Last failure", text: notification.retry.message };
+  }
+  if (notification.error) {
+    return { label: notification.error.name, text: notification.error.message };
+  }
+  if (notification.summary?.excerpt) {
+    return { label: "Last message", text: notification.summary.excerpt };
+  }
+  return undefined;
+}
+
+/**
+ * Statistics from a completion summary, for providers that show them as extra fields
+ */
+export function getSummaryFields(notification: Notification): Array<{ name: string; value: string }> {
+  const { summary } = notification;
+  if (!summary) {
+    return [];
+  }
+
+  const fields: Array<{ name: string; value: string }> = [];
+  if (notification.busyMs !== undefined) {
+    fields.push({ name: "Duration", value: formatDuration(notification.busyMs) });
+  }
+  if (summary.filesChanged !== undefined) {
+    fields.push({ name: "Files Changed", value: summary.filesChanged.toString() });
+  }
+  if (summary.tokens) {
+    fields.push({ name: "Tokens", value: formatTokens(summary.tokens) });
+  }
+  if (summary.cost !== undefined) {
+    fields.push({ name: "Cost", value: formatCost(summary.cost) });
+  }
+  return fields;
+}
+
+function getPermissionText(permission: NotificationPermission): string {
+  if (permission.patterns.length > 0) {
+    return permission.patterns.join("\n");
+  }
+  return permission.title || `OpenCode wants to use ${permission.tool}`;
+}
+
+/**
+ * The most urgent type among several notifications
+ */
+export function getMostUrgentType(notifications: Notification[]): NotificationType {
+  return notifications.reduce<NotificationType>(
+    (type, n) => (URGENCY_ORDER.indexOf(n.type) > URGENCY_ORDER.indexOf(type) ? n.type : type),
+    "idle"
+  );
+}
+
+/**
+ * Format a duration for display, e.g. "45s", "12m" or "1h 5m"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) {
+    return `${Math.max(0, Math.round(ms / 1000))}s`;
+  }
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+}
+
+function formatTokens(tokens: { input: number; output: number }): string {
+  return `${formatCount(tokens.input)} in / ${formatCount(tokens.output)} out`;
+}
+
+function formatCount(count: number): string {
+  if (count >= 1_000_000) {
+    return `${(count / 1_000_000).toFixed(1)}M`;
+  }
+  return count >= 1000 ? `${(count / 1000).toFixed(1)}k` : count.toString();
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Extract just the project folder name from the full path
+ */
+export function getProjectName(notification: Notification): string {
+  return notification.projectDirectory.split("/").pop() || notification.projectDirectory;
+}
+
+/**
+ * Truncate text to at most maxLength characters, marking the cut with "..."
+ */
+export function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  // Never cut an emoji or other character outside the BMP in half
+  let end = maxLength - 3;
+  if (/[\uD800-\uDBFF]/.test(text.charAt(end - 1))) {
+    end--;
+  }
+  return text.slice(0, end) + "...";
+}
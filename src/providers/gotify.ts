@@ -0,0 +1,115 @@
+/**
+ * Gotify push notification provider
+ */
+
+import type { GotifyProviderConfig } from "../config.ts";
+import type { Notification, NotificationProvider, NotificationType } from "./types.ts";
+import { ProviderError } from "./errors.ts";
+import { createFormatter, getDetail, getMostUrgentType, getProjectName, truncate, type MessageFormatter } from "./format.ts";
+
+// Gotify clients treat 0-3 as low, 4-7 as normal and 8-10 as high priority
+const PRIORITIES: Record<NotificationType, number> = {
+  idle: 5,
+  busy: 5,
+  retry: 8,
+  question: 8,
+  permission: 8,
+  error: 9,
+};
+
+// The project is already the title, so it's left out of the message body
+const GOTIFY_TEMPLATES = {
+  title: "{{projectName}}",
+  fields: [
+    { name: "Session", value: "{{sessionTitle}}" },
+    { name: "Status", value: "{{status}}" },
+  ],
+};
+
+export class GotifyProvider implements NotificationProvider {
+  readonly type = "gotify";
+  readonly enabled: boolean;
+  private readonly serverUrl: string;
+  private readonly token?: string;
+  private readonly format: MessageFormatter;
+
+  constructor(config: GotifyProviderConfig) {
+    this.enabled = config.enabled;
+    this.serverUrl = config.serverUrl.replace(/\/$/, "");
+    this.token = config.token;
+    this.format = createFormatter(config.templates, GOTIFY_TEMPLATES);
+  }
+
+  async send(notification: Notification): Promise<number | undefined> {
+    const lines = this.format.fields(notification).map((field) => `**${field.name}:** ${field.value}`);
+
+    // Add detail text (question, error, last message, ...) if present
+    const detail = getDetail(notification);
+    if (detail) {
+      lines.push("", notification.question ? detail.text : `**${detail.label}:** ${detail.text}`);
+    }
+
+    lines.push("", `[Open in OpenCode Desktop](${notification.desktopUrl})`);
+
+    const body = {
+      title: this.format.title(notification),
+      message: lines.join("  \n"),
+      priority: PRIORITIES[notification.type],
+      extras: {
+        "client::display": {
+          contentType: "text/markdown",
+        },
+        "client::notification": {
+          click: { url: notification.desktopUrl },
+        },
+      },
+    };
+
+    return this.post(body);
+  }
+
+  async sendBatch(notifications: Notification[]): Promise<number> {
+    const lines = notifications.map((notification) => {
+      const sessionTitle = notification.sessionTitle || notification.sessionId;
+      const line = `- **${getProjectName(notification)}**: [${sessionTitle}](${notification.desktopUrl}) (${this.format.status(notification)})`;
+      const detail = getDetail(notification);
+      return detail ? `${line}\n  ${truncate(detail.text, 200)}` : line;
+    });
+
+    const body = {
+      title: this.format.batchTitle(notifications),
+      message: lines.join("\n"),
+      priority: PRIORITIES[getMostUrgentType(notifications)],
+      extras: {
+        "client::display": {
+          contentType: "text/markdown",
+        },
+      },
+    };
+
+    await this.post(body);
+    return notifications.length;
+  }
+
+  private async post(body: Record<string, unknown>): Promise<number> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    if (this.token) {
+      headers["X-Gotify-Key"] = this.token;
+    }
+
+    const response = await fetch(`${this.serverUrl}/message`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse("Gotify message failed", response);
+    }
+
+    return response.status;
+  }
+}
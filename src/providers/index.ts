@@ -7,8 +7,22 @@ import type { NotificationProvider } from "./types.ts";
 import { DiscordProvider } from "./discord.ts";
 import { WebhookProvider } from "./webhook.ts";
 import { MSTeamsProvider } from "./msteams.ts";
+import { SlackProvider } from "./slack.ts";
+import { NtfyProvider } from "./ntfy.ts";
+import { GotifyProvider } from "./gotify.ts";
+import { TelegramProvider } from "./telegram.ts";
+import { EmailProvider } from "./email.ts";
+import { DesktopProvider } from "./desktop.ts";
 
-export type { NotificationProvider, Notification } from "./types.ts";
+export type {
+  NotificationProvider,
+  Notification,
+  NotificationType,
+  NotificationSummary,
+  NotificationAction,
+} from "./types.ts";
+export { NOTIFICATION_TYPES } from "./types.ts";
+export { ProviderError, isRetryableError } from "./errors.ts";
 
 export function createProvider(config: ProviderConfig): NotificationProvider {
   switch (config.type) {
@@ -18,6 +32,18 @@ export function createProvider(config: ProviderConfig): NotificationProvider {
       return new WebhookProvider(config);
     case "msteams":
       return new MSTeamsProvider(config);
+    case "slack":
+      return new SlackProvider(config);
+    case "ntfy":
+      return new NtfyProvider(config);
+    case "gotify":
+      return new GotifyProvider(config);
+    case "telegram":
+      return new TelegramProvider(config);
+    case "email":
+      return new EmailProvider(config);
+    case "desktop":
+      return new DesktopProvider(config);
     default:
       // TypeScript exhaustiveness check
       const _exhaustive: never = config;
@@ -4,61 +4,58 @@
  */
 
 import type { MSTeamsProviderConfig } from "../config.ts";
-import type { Notification, NotificationProvider } from "./types.ts";
+import type { Notification, NotificationProvider, NotificationType } from "./types.ts";
+import { ProviderError } from "./errors.ts";
+import { createFormatter, getDetail, getMostUrgentType, getSummaryFields, truncate, type MessageFormatter } from "./format.ts";
+
+// Adaptive Card text colors
+const TITLE_COLORS: Record<NotificationType, string> = {
+  idle: "default",
+  busy: "accent",
+  retry: "warning",
+  question: "warning",
+  permission: "warning",
+  error: "attention",
+};
 
 export class MSTeamsProvider implements NotificationProvider {
   readonly type = "msteams";
   readonly enabled: boolean;
   private readonly webhookUrl: string;
+  private readonly format: MessageFormatter;
 
   constructor(config: MSTeamsProviderConfig) {
     this.enabled = config.enabled;
     this.webhookUrl = config.webhookUrl;
+    this.format = createFormatter(config.templates);
   }
 
-  async send(notification: Notification): Promise<void> {
-    // Extract just the project folder name from the full path
-    const projectName = notification.projectDirectory.split("/").pop() || notification.projectDirectory;
-
-    const isQuestion = notification.type === "question";
-    const title = isQuestion
-      ? `Question Pending: ${projectName}`
-      : `Session Idle: ${projectName}`;
-    const status = isQuestion ? "Waiting for your response" : "Ready for input";
-
+  async send(notification: Notification): Promise<number | undefined> {
     const bodyElements: unknown[] = [
       {
         type: "TextBlock",
         size: "Large",
         weight: "Bolder",
-        text: title,
+        text: this.format.title(notification),
         style: "heading",
-        color: isQuestion ? "warning" : "default",
+        color: TITLE_COLORS[notification.type],
       },
       {
         type: "FactSet",
-        facts: [
-          {
-            title: "Project",
-            value: projectName,
-          },
-          {
-            title: "Session",
-            value: notification.sessionTitle || notification.sessionId,
-          },
-          {
-            title: "Status",
-            value: status,
-          },
-        ],
+        facts: [...this.format.fields(notification), ...getSummaryFields(notification)].map((field) => ({
+          title: field.name,
+          value: field.value,
+        })),
       },
     ];
 
-    // Add question text if present
-    if (notification.question) {
+    // Add detail text (question, error, last message, ...) if present
+    const detail = getDetail(notification);
+    if (detail) {
       bodyElements.push({
         type: "TextBlock",
-        text: `**Question:** ${notification.question.length > 500 ? notification.question.slice(0, 497) + "..." : notification.question}`,
+        text: `**${detail.label}:** ${truncate(detail.text, 500)}`,
+        color: notification.type === "error" ? "attention" : "default",
         wrap: true,
         spacing: "Medium",
       });
@@ -89,12 +86,82 @@ export class MSTeamsProvider implements NotificationProvider {
                 title: "Open in OpenCode Desktop",
                 url: notification.desktopUrl,
               },
+              ...(notification.actions ?? []).map((action) => ({
+                type: "Action.OpenUrl",
+                title: action.label,
+                url: action.url,
+              })),
             ],
           },
         },
       ],
     };
 
+    return this.post(card);
+  }
+
+  async sendBatch(notifications: Notification[]): Promise<number> {
+    const bodyElements: unknown[] = [
+      {
+        type: "TextBlock",
+        size: "Large",
+        weight: "Bolder",
+        text: this.format.batchTitle(notifications),
+        style: "heading",
+        color: TITLE_COLORS[getMostUrgentType(notifications)],
+      },
+    ];
+
+    // One FactSet per session, each opening its own session when clicked
+    for (const notification of notifications) {
+      const facts = this.format.fields(notification).map((field) => ({ title: field.name, value: field.value }));
+
+      const detail = getDetail(notification);
+      if (detail) {
+        facts.push({
+          title: detail.label,
+          value: truncate(detail.text, 200),
+        });
+      }
+
+      bodyElements.push({
+        type: "Container",
+        separator: true,
+        spacing: "Medium",
+        selectAction: {
+          type: "Action.OpenUrl",
+          title: "Open in OpenCode Desktop",
+          url: notification.desktopUrl,
+        },
+        items: [
+          {
+            type: "FactSet",
+            facts,
+          },
+        ],
+      });
+    }
+
+    const card = {
+      type: "message",
+      attachments: [
+        {
+          contentType: "application/vnd.microsoft.card.adaptive",
+          content: {
+            $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+            type: "AdaptiveCard",
+            version: "1.4",
+            body: bodyElements,
+          },
+        },
+      ],
+    };
+
+    await this.post(card);
+    return notifications.length;
+  }
+
+  private async post(card: unknown): Promise<number> {
     const response = await fetch(this.webhookUrl, {
       method: "POST",
       headers: {
@@ -104,8 +171,9 @@ export class MSTeamsProvider implements NotificationProvider {
     });
 
     if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`MS Teams webhook failed: ${response.status} ${text}`);
+      throw await ProviderError.fromResponse("MS Teams webhook failed", response);
     }
+
+    return response.status;
   }
 }
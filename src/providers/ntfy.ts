@@ -0,0 +1,133 @@
+/**
+ * ntfy push notification provider
+ * Publishes as JSON so title, priority and click URL can be set per notification
+ */
+
+import type { NtfyProviderConfig } from "../config.ts";
+import type { Notification, NotificationProvider, NotificationType } from "./types.ts";
+import { ProviderError } from "./errors.ts";
+import { createFormatter, getDetail, getMostUrgentType, getProjectName, truncate, type MessageFormatter } from "./format.ts";
+
+// ntfy priorities: 1 (min) to 5 (max), 3 is the default
+const PRIORITIES: Record<NotificationType, number> = {
+  idle: 3,
+  busy: 3,
+  retry: 4,
+  question: 4,
+  permission: 4,
+  error: 4,
+};
+
+// Emoji shortcodes shown next to the title
+const TAGS: Record<NotificationType, string> = {
+  idle: "hourglass_done",
+  busy: "hourglass_flowing_sand",
+  retry: "repeat",
+  question: "question",
+  permission: "lock",
+  error: "rotating_light",
+};
+
+// The project is already the title, so it's left out of the message body
+const NTFY_TEMPLATES = {
+  title: "{{projectName}}",
+  fields: [
+    { name: "Session", value: "{{sessionTitle}}" },
+    { name: "Status", value: "{{status}}" },
+  ],
+};
+
+export class NtfyProvider implements NotificationProvider {
+  readonly type = "ntfy";
+  readonly enabled: boolean;
+  private readonly serverUrl: string;
+  private readonly topic: string;
+  private readonly token?: string;
+  private readonly format: MessageFormatter;
+
+  constructor(config: NtfyProviderConfig) {
+    this.enabled = config.enabled;
+    this.serverUrl = config.serverUrl.replace(/\/$/, "");
+    this.topic = config.topic;
+    this.token = config.token;
+    this.format = createFormatter(config.templates, NTFY_TEMPLATES);
+  }
+
+  async send(notification: Notification): Promise<number | undefined> {
+    const lines = this.format.fields(notification).map((field) => `${field.name}: ${field.value}`);
+
+    // Add detail text (question, error, last message, ...) if present
+    const detail = getDetail(notification);
+    if (detail) {
+      lines.push("", notification.question ? detail.text : `${detail.label}: ${detail.text}`);
+    }
+
+    const body = {
+      topic: this.topic,
+      title: this.format.title(notification),
+      message: lines.join("\n"),
+      priority: PRIORITIES[notification.type],
+      tags: [TAGS[notification.type]],
+      click: notification.desktopUrl,
+      actions: [
+        {
+          action: "view",
+          label: "Open in OpenCode Desktop",
+          url: notification.desktopUrl,
+        },
+      ],
+    };
+
+    return this.publish(body);
+  }
+
+  async sendBatch(notifications: Notification[]): Promise<number> {
+    const type = getMostUrgentType(notifications);
+
+    const lines = notifications.map((notification) => {
+      const line = `• ${getProjectName(notification)}: ${notification.sessionTitle || notification.sessionId} (${this.format.status(notification)})`;
+      const detail = getDetail(notification);
+      return detail ? `${line}\n  ${truncate(detail.text, 200)}` : line;
+    });
+
+    // ntfy allows up to three actions per message
+    const body = {
+      topic: this.topic,
+      title: this.format.batchTitle(notifications),
+      message: lines.join("\n"),
+      priority: PRIORITIES[type],
+      tags: [TAGS[type]],
+      actions: notifications.slice(0, 3).map((notification) => ({
+        action: "view",
+        label: truncate(notification.sessionTitle || getProjectName(notification), 40),
+        url: notification.desktopUrl,
+      })),
+    };
+
+    await this.publish(body);
+    return notifications.length;
+  }
+
+  private async publish(body: Record<string, unknown>): Promise<number> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    if (this.token) {
+      headers["Authorization"] = `Bearer ${this.token}`;
+    }
+
+    // JSON messages are published to the server root, not the topic URL
+    const response = await fetch(this.serverUrl, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse("ntfy publish failed", response);
+    }
+
+    return response.status;
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Slack notification provider
+ * Uses Block Kit for rich notifications, via an incoming webhook or a bot token
+ */
+
+import type { SlackProviderConfig } from "../config.ts";
+import type { Notification, NotificationProvider } from "./types.ts";
+import { ProviderError } from "./errors.ts";
+import { createFormatter, getDetail, getProjectName, truncate, type MessageFormatter } from "./format.ts";
+
+const SLACK_POST_MESSAGE_URL = "https://slack.com/api/chat.postMessage";
+
+// Slack rejects header blocks with more than 150 characters of text
+const MAX_HEADER_LENGTH = 150;
+
+// Messages are limited to 50 blocks; leave room for the header
+const MAX_BATCH_SECTIONS = 45;
+
+// A section holds at most 10 fields
+const MAX_SECTION_FIELDS = 10;
+
+export class SlackProvider implements NotificationProvider {
+  readonly type = "slack";
+  readonly enabled: boolean;
+  private readonly webhookUrl?: string;
+  private readonly botToken?: string;
+  private readonly channel?: string;
+  private readonly format: MessageFormatter;
+
+  constructor(config: SlackProviderConfig) {
+    this.enabled = config.enabled;
+    this.webhookUrl = config.webhookUrl;
+    this.botToken = config.botToken;
+    this.channel = config.channel;
+    this.format = createFormatter(config.templates);
+  }
+
+  async send(notification: Notification): Promise<number | undefined> {
+    const title = this.format.title(notification);
+    const fields = this.format.fields(notification).slice(0, MAX_SECTION_FIELDS);
+
+    const blocks: unknown[] = [
+      {
+        type: "header",
+        text: {
+          type: "plain_text",
+          text: truncate(title, MAX_HEADER_LENGTH),
+          emoji: true,
+        },
+      },
+    ];
+
+    if (fields.length > 0) {
+      blocks.push({
+        type: "section",
+        fields: fields.map((field) => ({
+          type: "mrkdwn",
+          text: truncate(`*${escapeMrkdwn(field.name)}*\n${escapeMrkdwn(field.value)}`, 2000),
+        })),
+      });
+    }
+
+    // Add detail text if present (section text is limited to 3000 characters)
+    const detail = getDetail(notification);
+    if (detail) {
+      blocks.push({
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*${escapeMrkdwn(truncate(detail.label, 80))}*\n${escapeMrkdwn(truncate(detail.text, 2900))}`,
+        },
+      });
+    }
+
+    blocks.push(
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            text: {
+              type: "plain_text",
+              text: "Open in OpenCode Desktop",
+            },
+            url: notification.desktopUrl,
+            style: notification.type === "error" ? "danger" : "primary",
+          },
+        ],
+      },
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `OpenCode | ${escapeMrkdwn(notification.projectDirectory)}`,
+          },
+        ],
+      },
+    );
+
+    // Fallback text is shown in push notifications and clients without Block Kit support
+    const body: Record<string, unknown> = {
+      text: title,
+      blocks,
+    };
+
+    return this.post(body);
+  }
+
+  async sendBatch(notifications: Notification[]): Promise<number> {
+    // Sessions beyond the block limit are left for a follow-up message
+    const shown = notifications.slice(0, MAX_BATCH_SECTIONS);
+    const title = this.format.batchTitle(shown);
+
+    const blocks: unknown[] = [
+      {
+        type: "header",
+        text: {
+          type: "plain_text",
+          text: truncate(title, MAX_HEADER_LENGTH),
+          emoji: true,
+        },
+      },
+    ];
+
+    for (const notification of shown) {
+      const lines = [
+        `*<${notification.desktopUrl}|${escapeMrkdwn(notification.sessionTitle || notification.sessionId)}>*`,
+        `${escapeMrkdwn(getProjectName(notification))} — ${escapeMrkdwn(this.format.status(notification))}`,
+      ];
+      const detail = getDetail(notification);
+      if (detail) {
+        lines.push(`>${escapeMrkdwn(truncate(detail.text, 200))}`);
+      }
+      blocks.push({
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: lines.join("\n"),
+        },
+      });
+    }
+
+    await this.post({ text: title, blocks });
+    return shown.length;
+  }
+
+  private async post(body: Record<string, unknown>): Promise<number> {
+    return this.botToken ? this.postMessage(body) : this.postWebhook(body);
+  }
+
+  private async postWebhook(body: Record<string, unknown>): Promise<number> {
+    const response = await fetch(this.webhookUrl!, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse("Slack webhook failed", response);
+    }
+
+    return response.status;
+  }
+
+  private async postMessage(body: Record<string, unknown>): Promise<number> {
+    const response = await fetch(SLACK_POST_MESSAGE_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        Authorization: `Bearer ${this.botToken}`,
+      },
+      body: JSON.stringify({ ...body, channel: this.channel }),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse("Slack chat.postMessage failed", response);
+    }
+
+    // The Web API reports errors in the body with a 200 status; only rate limiting is worth retrying
+    const result = await response.json() as { ok: boolean; error?: string };
+    if (!result.ok) {
+      throw new ProviderError(`Slack chat.postMessage failed: ${result.error ?? "unknown error"}`, {
+        status: response.status,
+        retryable: result.error === "ratelimited",
+      });
+    }
+
+    return response.status;
+  }
+}
+
+/**
+ * Escape the characters Slack treats as control sequences in mrkdwn text
+ */
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
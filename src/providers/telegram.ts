@@ -0,0 +1,175 @@
+/**
+ * Telegram bot notification provider
+ * Sends MarkdownV2 messages with an inline keyboard button to each configured chat
+ */
+
+import type { TelegramProviderConfig } from "../config.ts";
+import type { Notification, NotificationProvider } from "./types.ts";
+import { ProviderError, isRetryableError } from "./errors.ts";
+import { createFormatter, getDetail, getProjectName, truncate, type MessageFormatter } from "./format.ts";
+
+// Messages are limited to 4096 characters after entity parsing
+const MAX_MESSAGE_LENGTH = 4096;
+
+// Deliveries whose retries are remembered, oldest forgotten first
+const MAX_TRACKED_DELIVERIES = 1000;
+
+export class TelegramProvider implements NotificationProvider {
+  readonly type = "telegram";
+  readonly enabled: boolean;
+  private readonly botToken: string;
+  private readonly chatIds: Array<string | number>;
+  private readonly apiBaseUrl: string;
+  private readonly format: MessageFormatter;
+  // Chats each partly failed delivery already reached, so a retry only sends to the others
+  private readonly reachedChats = new Map<string, Set<string | number>>();
+
+  constructor(config: TelegramProviderConfig) {
+    this.enabled = config.enabled;
+    this.botToken = config.botToken;
+    this.chatIds = config.chatIds;
+    this.apiBaseUrl = (config.apiBaseUrl ?? "https://api.telegram.org").replace(/\/$/, "");
+    this.format = createFormatter(config.templates);
+  }
+
+  async send(notification: Notification): Promise<number | undefined> {
+    const lines = [`*${escapeMarkdownV2(truncate(this.format.title(notification), 256))}*`, ""];
+    for (const field of this.format.fields(notification)) {
+      lines.push(`*${escapeMarkdownV2(`${field.name}:`)}* ${escapeMarkdownV2(truncate(field.value, 256))}`);
+    }
+
+    // Add detail text if present (truncated before escaping so escapes are never cut in half)
+    const detail = getDetail(notification);
+    if (detail) {
+      lines.push("", `*${escapeMarkdownV2(`${truncate(detail.label, 80)}:`)}*`, escapeMarkdownV2(truncate(detail.text, 1024)));
+    }
+
+    lines.push("", `_${escapeMarkdownV2(notification.projectDirectory)}_`);
+
+    return this.sendToAll(lines.join("\n"), notification.deliveryId, notification.desktopUrl);
+  }
+
+  async sendBatch(notifications: Notification[]): Promise<number> {
+    // The title is added once the number of sessions that fit is known; escaped, it is at most 242 characters
+    const lines: string[] = [];
+    let length = 256;
+    let count = 0;
+
+    for (const notification of notifications) {
+      const sessionTitle = escapeMarkdownV2(notification.sessionTitle || notification.sessionId);
+      const entry = [
+        "",
+        `[${sessionTitle}](${escapeLinkUrl(notification.desktopUrl)})`,
+        `${escapeMarkdownV2(getProjectName(notification))} — ${escapeMarkdownV2(this.format.status(notification))}`,
+      ];
+      const detail = getDetail(notification);
+      if (detail) {
+        entry.push(`>${escapeMarkdownV2(truncate(detail.text, 200))}`);
+      }
+
+      // Sessions beyond the message limit are left for a follow-up message
+      const entryLength = entry.join("\n").length + 1;
+      if (count > 0 && length + entryLength > MAX_MESSAGE_LENGTH) {
+        break;
+      }
+      lines.push(...entry);
+      length += entryLength;
+      count++;
+    }
+
+    const shown = notifications.slice(0, count);
+    const title = `*${escapeMarkdownV2(truncate(this.format.batchTitle(shown), 120))}*`;
+    const deliveryIds = shown.map((n) => n.deliveryId);
+    await this.sendToAll([title, ...lines].join("\n"), deliveryIds.every(Boolean) ? deliveryIds.join(",") : undefined);
+    return count;
+  }
+
+  /**
+   * Send to every chat that the delivery hasn't reached yet, returning the status of the first that accepted it
+   */
+  private async sendToAll(text: string, deliveryId: string | undefined, desktopUrl?: string): Promise<number | undefined> {
+    const reached = (deliveryId && this.reachedChats.get(deliveryId)) || new Set<string | number>();
+    const chatIds = this.chatIds.filter((chatId) => !reached.has(chatId));
+    const results = await Promise.allSettled(chatIds.map((chatId) => this.sendMessage(chatId, text, desktopUrl)));
+
+    for (const [i, result] of results.entries()) {
+      if (result.status === "fulfilled") {
+        reached.add(chatIds[i]!);
+      }
+    }
+
+    const failures = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+    if (deliveryId) {
+      this.reachedChats.delete(deliveryId);
+      if (failures.length > 0) {
+        this.reachedChats.set(deliveryId, reached);
+        if (this.reachedChats.size > MAX_TRACKED_DELIVERIES) {
+          this.reachedChats.delete(this.reachedChats.keys().next().value!);
+        }
+      }
+    }
+
+    if (failures.length > 0) {
+      const reasons = failures.map((f) => (f.reason instanceof Error ? f.reason.message : String(f.reason)));
+      // Report the first transient failure, if any, so the dispatcher retries when it could help
+      const first = (failures.find((f) => isRetryableError(f.reason)) ?? failures[0]!).reason;
+      throw new ProviderError(
+        `Telegram sendMessage failed for ${failures.length}/${this.chatIds.length} chat(s): ${reasons.join("; ")}`,
+        first instanceof ProviderError
+          ? { status: first.status, retryAfterMs: first.retryAfterMs, retryable: first.retryable, cause: first }
+          : { cause: first },
+      );
+    }
+
+    return results.find((r): r is PromiseFulfilledResult<number> => r.status === "fulfilled")?.value;
+  }
+
+  private async sendMessage(chatId: string | number, text: string, desktopUrl?: string): Promise<number> {
+    const body: Record<string, unknown> = {
+      chat_id: chatId,
+      text,
+      parse_mode: "MarkdownV2",
+    };
+
+    if (desktopUrl) {
+      body.reply_markup = {
+        inline_keyboard: [
+          [
+            {
+              text: "Open in OpenCode Desktop",
+              url: desktopUrl,
+            },
+          ],
+        ],
+      };
+    }
+
+    const response = await fetch(`${this.apiBaseUrl}/bot${this.botToken}/sendMessage`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw await ProviderError.fromResponse(`chat ${chatId}`, response);
+    }
+
+    return response.status;
+  }
+}
+
+/**
+ * Inside the (...) part of a MarkdownV2 link only ) and \ must be escaped
+ */
+function escapeLinkUrl(url: string): string {
+  return url.replace(/[)\\]/g, "\\$&");
+}
+
+/**
+ * Escape every character that MarkdownV2 reserves outside of entities
+ */
+function escapeMarkdownV2(text: string): string {
+  return text.replace(/[_*\[\]()~`>#+\-=|{}.!\\]/g, "\\$&");
+}
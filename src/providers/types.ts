@@ -2,10 +2,14 @@
  * Provider interface and notification types
  */
 
-export type NotificationType = "idle" | "question";
+export const NOTIFICATION_TYPES = ["idle", "busy", "retry", "question", "permission", "error"] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
 
 export interface Notification {
   type: NotificationType;
+  /** Name of the OpenCode server the session runs on */
+  server: string;
   sessionId: string;
   sessionTitle: string;
   projectId: string;
@@ -14,10 +18,67 @@ export interface Notification {
   timestamp: Date;
   /** Question text when type is "question" */
   question?: string;
+  /** Error details when type is "error" */
+  error?: NotificationError;
+  /** The tool call awaiting approval when type is "permission" */
+  permission?: NotificationPermission;
+  /** The latest retry when type is "retry" */
+  retry?: NotificationRetry;
+  /** How long the session has been busy, when known */
+  busyMs?: number;
+  /** What the session did in its last turn, when type is "idle" */
+  summary?: NotificationSummary;
+  /** Signed links that act on the session, shown as extra buttons where supported */
+  actions?: NotificationAction[];
+  /** Identifies the delivery of this notification to one provider; the same for every retry */
+  deliveryId?: string;
+}
+
+export interface NotificationAction {
+  label: string;
+  url: string;
+}
+
+export interface NotificationSummary {
+  /** Beginning of the last assistant message */
+  excerpt?: string;
+  tokens?: { input: number; output: number };
+  /** Cost in USD */
+  cost?: number;
+  filesChanged?: number;
+}
+
+export interface NotificationError {
+  /** Error class reported by OpenCode, e.g. "APIError" or "ProviderAuthError" */
+  name: string;
+  message: string;
+}
+
+export interface NotificationRetry {
+  attempt: number;
+  /** Why the last attempt failed, as reported by OpenCode */
+  message: string;
+}
+
+export interface NotificationPermission {
+  id: string;
+  /** Tool or permission kind, e.g. "bash" or "edit" */
+  tool: string;
+  /** Commands, paths or URLs the tool wants to act on */
+  patterns: string[];
+  /** Description of the request, when OpenCode provides one */
+  title?: string;
 }
 
 export interface NotificationProvider {
   readonly type: string;
   readonly enabled: boolean;
-  send(notification: Notification): Promise<void>;
+  /** Resolves to the HTTP (or protocol) status the remote service answered with, when there is one */
+  send(notification: Notification): Promise<number | undefined>;
+  /**
+   * Send several notifications as a single summary message; without it they are sent one by one.
+   * Returns how many of them, from the first, fit in the message (at least one); the rest are
+   * sent in follow-up messages.
+   */
+  sendBatch?(notifications: Notification[]): Promise<number>;
 }
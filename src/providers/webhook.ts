@@ -1,9 +1,14 @@
 /**
  * Generic webhook notification provider
+ * Sends a fixed JSON payload, or a user-defined body template rendered per notification
+ * With a secret configured, each request is signed so receivers can verify it and reject replays
  */
 
+import { createHash, createHmac } from "crypto";
 import type { WebhookProviderConfig } from "../config.ts";
 import type { Notification, NotificationProvider } from "./types.ts";
+import { ProviderError } from "./errors.ts";
+import { createFormatter, renderJsonTemplate, type MessageFormatter } from "./format.ts";
 
 export class WebhookProvider implements NotificationProvider {
   readonly type = "webhook";
@@ -11,50 +16,121 @@ export class WebhookProvider implements NotificationProvider {
   private readonly url: string;
   private readonly method: "GET" | "POST" | "PUT";
   private readonly headers: Record<string, string>;
+  private readonly bodyTemplate?: unknown;
+  private readonly secret?: string;
+  private readonly format: MessageFormatter;
 
   constructor(config: WebhookProviderConfig) {
     this.enabled = config.enabled;
     this.url = config.url;
     this.method = config.method ?? "POST";
     this.headers = config.headers ?? {};
+    this.bodyTemplate = config.bodyTemplate;
+    this.secret = config.secret;
+    this.format = createFormatter(config.templates);
   }
 
-  async send(notification: Notification): Promise<void> {
-    const eventType = notification.type === "question" ? "session.question" : "session.idle";
-
-    const body: Record<string, unknown> = {
-      event: eventType,
-      session: {
-        id: notification.sessionId,
-        title: notification.sessionTitle,
-      },
-      project: {
-        id: notification.projectId,
-        directory: notification.projectDirectory,
-      },
-      desktopUrl: notification.desktopUrl,
-      timestamp: notification.timestamp.toISOString(),
-    };
+  async send(notification: Notification): Promise<number | undefined> {
+    return this.post(this.buildBody(notification), notification.deliveryId ?? crypto.randomUUID());
+  }
+
+  /**
+   * Batches are sent as a JSON array of the payloads single notifications would have sent,
+   * with a delivery ID derived from those of the notifications in it
+   */
+  async sendBatch(notifications: Notification[]): Promise<number> {
+    const deliveryIds = notifications.map((notification) => notification.deliveryId ?? crypto.randomUUID());
+    const deliveryId = createHash("sha256").update(deliveryIds.join(",")).digest("hex").slice(0, 32);
+    await this.post(notifications.map((notification) => this.buildBody(notification)), deliveryId);
+    return notifications.length;
+  }
 
-    // Add question text if present
-    if (notification.question) {
-      body.question = notification.question;
+  private buildBody(notification: Notification): unknown {
+    if (this.bodyTemplate === undefined) {
+      return buildPayload(notification);
     }
+    return renderJsonTemplate(this.bodyTemplate, this.format.values(notification));
+  }
 
+  private async post(body: unknown, deliveryId: string): Promise<number> {
+    const payload = JSON.stringify(body);
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
       ...this.headers,
     };
 
+    if (this.secret) {
+      Object.assign(headers, signPayload(this.secret, payload, deliveryId));
+    }
+
     const response = await fetch(this.url, {
       method: this.method,
       headers,
-      body: JSON.stringify(body),
+      body: payload,
     });
 
     if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Webhook failed: ${response.status} ${text}`);
+      throw await ProviderError.fromResponse("Webhook failed", response);
     }
+
+    return response.status;
+  }
+}
+
+/**
+ * Signature headers for a request body. The signature is an HMAC-SHA256 of "<deliveryId>.<timestamp>.<body>",
+ * so a captured request can't be replayed once the receiver's tolerance window has passed, nor within it
+ * under a different delivery ID. Retries keep the delivery ID, so receivers can deduplicate them.
+ */
+function signPayload(secret: string, payload: string, deliveryId: string): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = createHmac("sha256", secret).update(`${deliveryId}.${timestamp}.${payload}`).digest("hex");
+
+  return {
+    "X-OC-Notifier-Delivery": deliveryId,
+    "X-OC-Notifier-Timestamp": timestamp,
+    "X-OC-Notifier-Signature": `sha256=${signature}`,
+  };
+}
+
+function buildPayload(notification: Notification): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    event: `session.${notification.type}`,
+    server: notification.server,
+    session: {
+      id: notification.sessionId,
+      title: notification.sessionTitle,
+    },
+    project: {
+      id: notification.projectId,
+      directory: notification.projectDirectory,
+    },
+    desktopUrl: notification.desktopUrl,
+    timestamp: notification.timestamp.toISOString(),
+  };
+
+  // Add the details specific to each notification type
+  if (notification.question) {
+    body.question = notification.question;
+  }
+  if (notification.permission) {
+    body.permission = notification.permission;
   }
+  if (notification.retry) {
+    body.retry = notification.retry;
+  }
+  if (notification.error) {
+    body.error = notification.error;
+  }
+  if (notification.summary) {
+    body.summary = notification.summary;
+  }
+  if (notification.busyMs !== undefined) {
+    body.busyMs = notification.busyMs;
+  }
+  if (notification.actions) {
+    body.actions = notification.actions;
+  }
+
+  return body;
 }
@@ -0,0 +1,38 @@
+/**
+ * Token bucket rate limiter for provider sends
+ */
+
+import type { RateLimitConfig } from "./config.ts";
+
+export class TokenBucket {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(config: RateLimitConfig) {
+    this.capacity = config.burst;
+    this.refillPerMs = config.maxPerMinute / 60_000;
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Wait until a token is available and consume it
+   */
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await Bun.sleep(Math.ceil((1 - this.tokens) / this.refillPerMs));
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Per-provider delivery schedules
+ * A provider is open when the current time falls inside one of its active windows
+ * (or it has none) and outside all of its quiet windows.
+ */
+
+import type { ScheduleConfig, TimeWindow, Weekday } from "./config.ts";
+
+export type ScheduleCheck = (date: Date) => boolean;
+
+const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Compile a schedule from config into a predicate telling whether delivery is allowed at a given time
+ */
+export function createScheduleCheck(config: ScheduleConfig): ScheduleCheck {
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone: config.timezone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+
+  return (date) => {
+    const parts = format.formatToParts(date);
+    const weekday = parts.find((p) => p.type === "weekday")!.value.toLowerCase().slice(0, 3) as Weekday;
+    const hour = Number(parts.find((p) => p.type === "hour")!.value);
+    const minute = Number(parts.find((p) => p.type === "minute")!.value);
+    const local = { day: WEEKDAYS.indexOf(weekday), minutes: hour * 60 + minute };
+
+    if (config.active && !config.active.some((window) => inWindow(window, local))) {
+      return false;
+    }
+    return !config.quiet?.some((window) => inWindow(window, local));
+  };
+}
+
+/**
+ * Windows that end before they start run past midnight; `days` refers to the day a window starts
+ */
+function inWindow(window: TimeWindow, local: { day: number; minutes: number }): boolean {
+  const start = parseTime(window.start);
+  const end = parseTime(window.end);
+  const days = window.days?.map((d) => WEEKDAYS.indexOf(d));
+  const startsOn = (day: number) => !days || days.includes(day);
+
+  if (start < end) {
+    return startsOn(local.day) && local.minutes >= start && local.minutes < end;
+  }
+
+  // Overnight (or all-day when start === end): the late part belongs to today, the early part to yesterday
+  const yesterday = (local.day + 6) % 7;
+  return (startsOn(local.day) && local.minutes >= start) || (startsOn(yesterday) && local.minutes < end);
+}
+
+/**
+ * Convert "HH:MM" to minutes since midnight
+ */
+export function parseTime(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours! * 60 + minutes!;
+}
@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { applyEnvOverrides, resolveSecrets } from "./secrets.ts";
+
+describe("resolveSecrets", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "oc-notifier-secrets-"));
+    writeFileSync(join(dir, "token"), "s3cret\n");
+    writeFileSync(join(dir, "crlf"), "line\r\n");
+    writeFileSync(join(dir, "multiline"), "first\nsecond\n\n");
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("interpolates environment variables in strings", () => {
+    const env = { HOST: "example.com", PORT: "8080" };
+    expect(resolveSecrets("http://${HOST}:${PORT}/", env)).toBe("http://example.com:8080/");
+  });
+
+  test("replaces an empty variable with an empty string", () => {
+    expect(resolveSecrets("a${EMPTY}b", { EMPTY: "" })).toBe("ab");
+  });
+
+  test("keeps $${NAME} as a literal ${NAME}", () => {
+    expect(resolveSecrets("$${HOST} and ${HOST}", { HOST: "h" })).toBe("${HOST} and h");
+  });
+
+  test("leaves a lone $ and unbraced names alone", () => {
+    expect(resolveSecrets("costs $5, $HOST", { HOST: "h" })).toBe("costs $5, $HOST");
+  });
+
+  test("resolves nested objects and arrays", () => {
+    const config = { providers: [{ url: "${URL}", retry: { maxAttempts: 3 } }], enabled: true };
+    expect(resolveSecrets(config, { URL: "https://hook" })).toEqual({
+      providers: [{ url: "https://hook", retry: { maxAttempts: 3 } }],
+      enabled: true,
+    });
+  });
+
+  test("names the field and variable of a missing variable, not the value", () => {
+    expect(() => resolveSecrets({ opencode: { password: "${MISSING}" } }, {})).toThrow(
+      "Config field opencode.password references environment variable MISSING, which is not set"
+    );
+  });
+
+  test("rejects invalid variable names", () => {
+    expect(() => resolveSecrets({ providers: ["${1ABC}"] }, { "1ABC": "x" })).toThrow(
+      'Config field providers[0] contains an invalid environment variable reference "${1ABC}"'
+    );
+    expect(() => resolveSecrets("${}", {})).toThrow("invalid environment variable reference");
+  });
+
+  test("reads { file } references, dropping one trailing newline", () => {
+    const config = { token: { file: join(dir, "token") }, other: { file: join(dir, "crlf") } };
+    expect(resolveSecrets(config, {})).toEqual({ token: "s3cret", other: "line" });
+    expect(resolveSecrets({ file: join(dir, "multiline") }, {})).toBe("first\nsecond\n");
+  });
+
+  test("interpolates the file path", () => {
+    expect(resolveSecrets({ token: { file: "${DIR}/token" } }, { DIR: dir })).toEqual({ token: "s3cret" });
+  });
+
+  test("treats objects with keys besides file as plain objects", () => {
+    expect(resolveSecrets({ file: "name.txt", mode: "${MODE}" }, { MODE: "r" })).toEqual({ file: "name.txt", mode: "r" });
+  });
+
+  test("reports unreadable and invalid file references", () => {
+    expect(() => resolveSecrets({ token: { file: join(dir, "missing") } }, {})).toThrow(
+      `Config field token references secret file ${join(dir, "missing")}, which could not be read (ENOENT)`
+    );
+    expect(() => resolveSecrets({ token: { file: "" } }, {})).toThrow("Config field token.file must be a non-empty string");
+    expect(() => resolveSecrets({ token: { file: 42 } }, {})).toThrow("Config field token.file must be a non-empty string");
+  });
+});
+
+describe("applyEnvOverrides", () => {
+  test("ignores variables without the prefix", () => {
+    const config = { opencode: { password: "a" } };
+    expect(applyEnvOverrides(config, { OPENCODE__PASSWORD: "b", PATH: "/bin" })).toEqual(config);
+  });
+
+  test("sets nested fields, matching existing camelCase keys", () => {
+    const config = { opencode: { baseUrl: "http://a", password: "old" } };
+    const env = { OC_NOTIFIER_OPENCODE__PASSWORD: "new", OC_NOTIFIER_OPENCODE__BASE_URL: "http://b" };
+    expect(applyEnvOverrides(config, env)).toEqual({ opencode: { baseUrl: "http://b", password: "new" } });
+  });
+
+  test("does not modify the original config", () => {
+    const config = { opencode: { password: "old" } };
+    applyEnvOverrides(config, { OC_NOTIFIER_OPENCODE__PASSWORD: "new" });
+    expect(config).toEqual({ opencode: { password: "old" } });
+  });
+
+  test("converts new keys to camelCase and creates missing objects", () => {
+    expect(applyEnvOverrides({}, { OC_NOTIFIER_HEALTH__PORT_NUMBER: "9" })).toEqual({ health: { portNumber: 9 } });
+  });
+
+  test("addresses list items by index, including one past the end", () => {
+    const config = { providers: [{ type: "discord", webhookUrl: "a" }] };
+    const env = {
+      OC_NOTIFIER_PROVIDERS__0__WEBHOOK_URL: "b",
+      OC_NOTIFIER_PROVIDERS__1__TYPE: "ntfy",
+    };
+    expect(applyEnvOverrides(config, env)).toEqual({
+      providers: [{ type: "discord", webhookUrl: "b" }, { type: "ntfy" }],
+    });
+  });
+
+  test("rejects indexes that skip list items", () => {
+    expect(() => applyEnvOverrides({ providers: [] }, { OC_NOTIFIER_PROVIDERS__2__TYPE: "ntfy" })).toThrow(
+      "Environment variable OC_NOTIFIER_PROVIDERS__2__TYPE refers to a list item that does not exist"
+    );
+    expect(() => applyEnvOverrides({ providers: [] }, { OC_NOTIFIER_PROVIDERS__X: "1" })).toThrow(
+      "refers to a list item that does not exist"
+    );
+  });
+
+  test("rejects empty path segments", () => {
+    expect(() => applyEnvOverrides({}, { OC_NOTIFIER_OPENCODE____PASSWORD: "x" })).toThrow(
+      "Environment variable OC_NOTIFIER_OPENCODE____PASSWORD is not a valid config override"
+    );
+    expect(() => applyEnvOverrides({}, { OC_NOTIFIER_: "x" })).toThrow("is not a valid config override");
+  });
+
+  test("keeps strings as is and parses other values as JSON when possible", () => {
+    const config = { name: "a", debounceMs: 100, enabled: false };
+    const env = {
+      OC_NOTIFIER_NAME: "123",
+      OC_NOTIFIER_DEBOUNCE_MS: "5000",
+      OC_NOTIFIER_ENABLED: "true",
+      OC_NOTIFIER_CHAT_IDS: "[1, 2]",
+      OC_NOTIFIER_LABEL: "not json",
+    };
+    expect(applyEnvOverrides(config, env)).toEqual({
+      name: "123",
+      debounceMs: 5000,
+      enabled: true,
+      chatIds: [1, 2],
+      label: "not json",
+    });
+  });
+
+  test("applies overrides in name order, so a whole field is replaced before its parts", () => {
+    const env = {
+      OC_NOTIFIER_OPENCODE__PASSWORD: "p",
+      OC_NOTIFIER_OPENCODE: '{"baseUrl": "http://a"}',
+    };
+    expect(applyEnvOverrides({}, env)).toEqual({ opencode: { baseUrl: "http://a", password: "p" } });
+  });
+});
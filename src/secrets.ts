@@ -0,0 +1,141 @@
+/**
+ * Secret references in the config file
+ * Strings may interpolate environment variables as ${NAME}, and any value can be replaced by the
+ * contents of a file with { "file": "/run/secrets/name" }. OC_NOTIFIER_* environment variables
+ * override whole fields. Errors name the field and the variable or file, never the value.
+ */
+
+import { readFileSync } from "fs";
+
+const ENV_PREFIX = "OC_NOTIFIER_";
+// ${NAME}, or $${NAME} for a literal "${NAME}"
+const ENV_REFERENCE_PATTERN = /\$(\$?)\{([^}]*)\}/g;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Replace ${NAME} references and { "file": ... } objects throughout a parsed config
+ */
+export function resolveSecrets(value: unknown, env: Env = process.env, path = ""): unknown {
+  if (typeof value === "string") {
+    return interpolate(value, env, path);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, i) => resolveSecrets(item, env, `${path}[${i}]`));
+  }
+
+  if (typeof value === "object" && value !== null) {
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj);
+    if (keys.length === 1 && keys[0] === "file") {
+      return readSecretFile(obj.file, env, path);
+    }
+
+    return Object.fromEntries(
+      keys.map((key) => [key, resolveSecrets(obj[key], env, path ? `${path}.${key}` : key)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Override fields with OC_NOTIFIER_* variables, with path segments separated by "__":
+ * OC_NOTIFIER_OPENCODE__PASSWORD sets opencode.password and OC_NOTIFIER_PROVIDERS__0__WEBHOOK_URL
+ * sets providers[0].webhookUrl. Values replacing a string are used as is, others are parsed as
+ * JSON when possible.
+ */
+export function applyEnvOverrides(config: unknown, env: Env = process.env): unknown {
+  const overrides = Object.entries(env)
+    .filter((entry): entry is [string, string] => entry[0].startsWith(ENV_PREFIX) && entry[1] !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  for (const [name, raw] of overrides) {
+    const segments = name.slice(ENV_PREFIX.length).split("__");
+    if (segments.some((segment) => !segment)) {
+      throw new Error(`Environment variable ${name} is not a valid config override`);
+    }
+    config = setPath(config, segments, raw, name);
+  }
+
+  return config;
+}
+
+function interpolate(value: string, env: Env, path: string): string {
+  return value.replace(ENV_REFERENCE_PATTERN, (match, escaped: string, name: string) => {
+    if (escaped) {
+      return match.slice(1);
+    }
+    if (!ENV_NAME_PATTERN.test(name)) {
+      throw new Error(`${describe(path)} contains an invalid environment variable reference "\${${name}}"`);
+    }
+
+    const resolved = env[name];
+    if (resolved === undefined) {
+      throw new Error(`${describe(path)} references environment variable ${name}, which is not set`);
+    }
+    return resolved;
+  });
+}
+
+function readSecretFile(file: unknown, env: Env, path: string): string {
+  if (typeof file !== "string" || !file) {
+    throw new Error(`${describe(path)}.file must be a non-empty string`);
+  }
+
+  const filePath = interpolate(file, env, `${path}.file`);
+  try {
+    // Secret files usually end with a newline that isn't part of the secret
+    return readFileSync(filePath, "utf8").replace(/\r?\n$/, "");
+  } catch (error) {
+    const reason = (error as NodeJS.ErrnoException).code ?? "unreadable";
+    throw new Error(`${describe(path)} references secret file ${filePath}, which could not be read (${reason})`);
+  }
+}
+
+function setPath(target: unknown, segments: string[], raw: string, name: string): unknown {
+  const [segment, ...rest] = segments as [string, ...string[]];
+
+  if (Array.isArray(target)) {
+    const index = Number(segment);
+    if (!Number.isInteger(index) || index < 0 || index > target.length) {
+      throw new Error(`Environment variable ${name} refers to a list item that does not exist`);
+    }
+    const copy = [...target];
+    copy[index] = rest.length > 0 ? setPath(copy[index] ?? {}, rest, raw, name) : parseOverride(copy[index], raw);
+    return copy;
+  }
+
+  const obj = typeof target === "object" && target !== null ? (target as Record<string, unknown>) : {};
+  const key = findKey(obj, segment);
+  return {
+    ...obj,
+    [key]: rest.length > 0 ? setPath(obj[key] ?? {}, rest, raw, name) : parseOverride(obj[key], raw),
+  };
+}
+
+/**
+ * Match a SCREAMING_SNAKE segment to an existing camelCase key, or convert it to one
+ */
+function findKey(obj: Record<string, unknown>, segment: string): string {
+  const normalized = segment.replace(/_/g, "").toLowerCase();
+  const existing = Object.keys(obj).find((key) => key.toLowerCase() === normalized);
+  return existing ?? segment.toLowerCase().replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+function parseOverride(current: unknown, raw: string): unknown {
+  if (typeof current === "string") {
+    return raw;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function describe(path: string): string {
+  return path ? `Config field ${path}` : "Config";
+}
@@ -1,10 +1,13 @@
 /**
  * SSE Client for OpenCode server
  * Connects to /global/event endpoint to receive events from all projects
- * Handles reconnection with exponential backoff
+ * Handles reconnection with exponential backoff, starting from the server's retry: delay if it sends one
+ * In poll mode, or in auto mode while the stream keeps failing, the same callbacks are driven by
+ * fetching session statuses, questions and permission requests on an interval instead.
  */
 
-import type { OpenCodeConfig } from "./config.ts";
+import type { OpenCodeConfig, OpenCodeMode } from "./config.ts";
+import { readEventStream, SSEParser } from "./sse-parser.ts";
 
 export type SessionStatus =
   | { type: "idle" }
@@ -19,6 +22,21 @@ export interface SessionStatusEvent {
   };
 }
 
+// Errors are serialized as { name, data }; most carry a message in data
+export interface SessionError {
+  name: string;
+  data?: { message?: string; [key: string]: unknown };
+}
+
+export interface SessionErrorEvent {
+  type: "session.error";
+  properties: {
+    /** Missing when the error isn't tied to a session */
+    sessionID?: string;
+    error?: SessionError;
+  };
+}
+
 // Tool state types for tracking tool execution
 export type ToolState =
   | { status: "pending"; input: Record<string, unknown> }
@@ -44,34 +62,205 @@ export interface MessagePartUpdatedEvent {
   };
 }
 
+// Permission requests: older servers send "permission.updated", newer ones "permission.asked"
+export interface PermissionUpdatedEvent {
+  type: "permission.updated";
+  properties: {
+    id: string;
+    sessionID: string;
+    /** Tool or permission kind, e.g. "bash" or "edit" */
+    type: string;
+    pattern?: string | string[];
+    title?: string;
+  };
+}
+
+export interface PermissionAskedEvent {
+  type: "permission.asked";
+  properties: {
+    id: string;
+    sessionID: string;
+    permission: string;
+    patterns?: string[];
+  };
+}
+
+// Sent once a permission request is answered; older servers name the request permissionID, newer ones requestID
+export interface PermissionRepliedEvent {
+  type: "permission.replied";
+  properties: {
+    sessionID: string;
+    permissionID?: string;
+    requestID?: string;
+  };
+}
+
+export interface PermissionRequest {
+  id: string;
+  sessionID: string;
+  tool: string;
+  /** Commands, paths or URLs the tool wants to act on */
+  patterns: string[];
+  title?: string;
+}
+
 // Global event wrapper - events from /global/event are wrapped with directory info
 export interface GlobalEvent {
   directory: string;
   payload: { type: string; properties?: unknown };
 }
 
+// Messages as returned by GET /session/:id/message
+export interface MessageTokens {
+  input: number;
+  output: number;
+  reasoning: number;
+  cache: { read: number; write: number };
+}
+
+export type MessageInfo =
+  | { id: string; role: "user"; time: { created: number } }
+  | {
+      id: string;
+      role: "assistant";
+      time: { created: number; completed?: number };
+      cost: number;
+      tokens: MessageTokens;
+    };
+
+export interface MessagePart {
+  type: string;
+  /** Set on text parts */
+  text?: string;
+  /** Text added by OpenCode rather than written by the model */
+  synthetic?: boolean;
+}
+
+export interface SessionMessage {
+  info: MessageInfo;
+  parts: MessagePart[];
+}
+
+// File changes as returned by GET /session/:id/diff
+export interface FileDiff {
+  file: string;
+  additions: number;
+  deletions: number;
+}
+
 export interface SessionInfo {
   id: string;
   parentSessionID?: string;
   title: string;
   projectID: string;
+  /** When the session last changed */
+  updatedAt?: number;
+}
+
+// Sessions as returned by GET /session/:id and GET /session
+interface RawSession {
+  id: string;
+  parentID?: string;
+  title?: string;
+  projectID: string;
+  time?: { created: number; updated: number };
+}
+
+// Projects as returned by GET /project
+export interface ProjectInfo {
+  id: string;
+  /** Directory the project lives in */
+  worktree: string;
+}
+
+// Pending permission requests as returned by GET /permission, in the newer or the older format
+type RawPermissionRequest = PermissionAskedEvent["properties"] | PermissionUpdatedEvent["properties"];
+
+export interface SSEClientStats {
+  /** Whether the event stream is connected, or while polling, whether the last poll succeeded */
+  connected: boolean;
+  /** Whether session changes are currently being polled for */
+  polling: boolean;
+  /** When the last event was received, if any */
+  lastEventAt: number | null;
+  /** Connection attempts after the first */
+  reconnects: number;
+  /** Delay before the next connection attempt, 0 unless waiting to reconnect */
+  backoffMs: number;
+  eventsByType: Map<string, number>;
 }
 
 type EventHandler = (event: SessionStatusEvent, directory: string) => void;
-type QuestionToolHandler = (sessionID: string, toolState: ToolState, directory: string) => void;
+/** Called on every successful connection, with when the previous one dropped (null for the first) */
+type ConnectHandler = (disconnectedAt: number | null) => void;
+type QuestionToolHandler = (part: ToolPart, directory: string) => void;
+type SessionErrorHandler = (sessionID: string, error: SessionError | undefined, directory: string) => void;
+type PermissionHandler = (request: PermissionRequest, directory: string) => void;
+/** Called with the ID of a question tool part or permission request that is no longer waiting for an answer */
+type RequestResolvedHandler = (requestID: string) => void;
+
+// What the previous poll saw, so only changes are reported
+interface PollState {
+  statuses: Map<string, { status: SessionStatus; directory: string }>;
+  /** IDs of the running question tool parts */
+  questions: Set<string>;
+  permissions: Set<string>;
+}
 
 export class SSEClient {
   private readonly baseUrl: string;
   private readonly headers: Record<string, string>;
+  private readonly heartbeatTimeoutMs: number;
+  private readonly mode: OpenCodeMode;
+  private readonly pollIntervalMs: number;
+  private readonly pollFallbackAfter: number;
   private abortController: AbortController | null = null;
+  private initialReconnectDelay = 1000;
   private reconnectDelay = 1000;
   private readonly maxReconnectDelay = 30000;
   private isRunning = false;
+  private readonly stats: SSEClientStats = {
+    connected: false,
+    polling: false,
+    lastEventAt: null,
+    reconnects: 0,
+    backoffMs: 0,
+    eventsByType: new Map(),
+  };
+  // Set when a connection drops, until the next one succeeds
+  private disconnectedAt: number | null = null;
+  // SSE connections in a row that failed or ended without delivering an event
+  private sseFailures = 0;
+  private receivedEvent = false;
+  private pollSucceeded = false;
+  // Incremented each time polling starts, so a loop left over from an earlier fallback ends
+  private pollRun = 0;
+  // Cleared when GET /permission is not found, for servers that can't list pending permissions
+  private pollPermissions = true;
+  // Keeps the last event ID across connections, sent as Last-Event-ID so a server that supports it can resume
+  private readonly parser = new SSEParser({
+    onMessage: (message) => {
+      this.markStreamHealthy();
+      this.processEvent(message.data);
+    },
+    onRetry: (delayMs) => {
+      this.initialReconnectDelay = Math.min(delayMs, this.maxReconnectDelay);
+      this.reconnectDelay = this.initialReconnectDelay;
+    },
+  });
+  private connectHandlers: ConnectHandler[] = [];
   private eventHandlers: EventHandler[] = [];
   private questionToolHandlers: QuestionToolHandler[] = [];
+  private sessionErrorHandlers: SessionErrorHandler[] = [];
+  private permissionHandlers: PermissionHandler[] = [];
+  private requestResolvedHandlers: RequestResolvedHandler[] = [];
 
   constructor(config: OpenCodeConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, "");
+    this.heartbeatTimeoutMs = config.heartbeatTimeoutMs;
+    this.mode = config.mode;
+    this.pollIntervalMs = config.pollIntervalMs;
+    this.pollFallbackAfter = config.pollFallbackAfter;
     this.headers = {};
 
     if (config.username && config.password) {
@@ -80,6 +269,10 @@ export class SSEClient {
     }
   }
 
+  onConnect(handler: ConnectHandler): void {
+    this.connectHandlers.push(handler);
+  }
+
   onSessionStatus(handler: EventHandler): void {
     this.eventHandlers.push(handler);
   }
@@ -88,6 +281,18 @@ export class SSEClient {
     this.questionToolHandlers.push(handler);
   }
 
+  onSessionError(handler: SessionErrorHandler): void {
+    this.sessionErrorHandlers.push(handler);
+  }
+
+  onPermissionRequest(handler: PermissionHandler): void {
+    this.permissionHandlers.push(handler);
+  }
+
+  onRequestResolved(handler: RequestResolvedHandler): void {
+    this.requestResolvedHandlers.push(handler);
+  }
+
   async fetchSessionInfo(sessionId: string, directory: string): Promise<SessionInfo | null> {
     try {
       const url = `${this.baseUrl}/session/${sessionId}?directory=${encodeURIComponent(directory)}`;
@@ -102,38 +307,154 @@ export class SSEClient {
         return null;
       }
 
-      const data = await response.json() as { id: string; parentID?: string; title?: string; projectID: string };
+      const data = await response.json() as RawSession;
       console.log(`[DEBUG] fetchSessionInfo response for ${sessionId}: ${JSON.stringify(data)}`);
-      const info: SessionInfo = {
-        id: data.id,
-        parentSessionID: data.parentID,
-        title: data.title || sessionId,
-        projectID: data.projectID,
-      };
-
-      return info;
+      return toSessionInfo(data);
     } catch (error) {
       console.error(`Error fetching session info:`, error);
       return null;
     }
   }
 
+  /**
+   * Fetch the projects known to the server
+   */
+  async fetchProjects(): Promise<ProjectInfo[] | null> {
+    return this.fetchJson<ProjectInfo[]>("/project", null);
+  }
+
+  /**
+   * Fetch the sessions of the project in a directory
+   */
+  async fetchSessions(directory: string): Promise<SessionInfo[] | null> {
+    const sessions = await this.fetchJson<RawSession[]>("/session", directory);
+    return sessions?.map(toSessionInfo) ?? null;
+  }
+
+  /**
+   * Fetch the status of the sessions in a directory; sessions that are missing are idle
+   */
+  async fetchSessionStatuses(directory: string): Promise<Record<string, SessionStatus> | null> {
+    return this.fetchJson<Record<string, SessionStatus>>("/session/status", directory);
+  }
+
+  /**
+   * Fetch the most recent messages of a session, oldest first
+   */
+  async fetchMessages(sessionId: string, directory: string, limit: number): Promise<SessionMessage[] | null> {
+    return this.fetchJson<SessionMessage[]>(`/session/${sessionId}/message`, directory, { limit: String(limit) });
+  }
+
+  /**
+   * Fetch the files changed by a session, or only by the turn started with the given user message
+   */
+  async fetchDiff(sessionId: string, directory: string, messageId?: string): Promise<FileDiff[] | null> {
+    return this.fetchJson<FileDiff[]>(`/session/${sessionId}/diff`, directory, messageId ? { messageID: messageId } : {});
+  }
+
+  /**
+   * Stop whatever the session is doing
+   */
+  async abortSession(sessionId: string, directory: string): Promise<void> {
+    await this.postJson(`/session/${sessionId}/abort`, directory);
+  }
+
+  /**
+   * Send a text prompt to a session without waiting for the response
+   */
+  async sendPrompt(sessionId: string, directory: string, text: string): Promise<void> {
+    await this.postJson(`/session/${sessionId}/prompt_async`, directory, { parts: [{ type: "text", text }] });
+  }
+
+  private async postJson(path: string, directory: string, body?: unknown): Promise<void> {
+    const query = new URLSearchParams({ directory });
+    const response = await fetch(`${this.baseUrl}${path}?${query}`, {
+      method: "POST",
+      headers: {
+        ...this.headers,
+        "Content-Type": "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`POST ${path} failed: ${response.status} ${text}`);
+    }
+  }
+
+  private async fetchJson<T>(path: string, directory: string | null, params: Record<string, string> = {}): Promise<T | null> {
+    try {
+      const query = new URLSearchParams(directory === null ? params : { directory, ...params });
+      const response = await fetch(`${this.baseUrl}${path}?${query}`, {
+        headers: this.headers,
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        console.error(`Failed to fetch ${path}: ${response.status} ${text}`);
+        return null;
+      }
+
+      return await response.json() as T;
+    } catch (error) {
+      console.error(`Error fetching ${path}:`, error);
+      return null;
+    }
+  }
+
+  getStats(): SSEClientStats {
+    return {
+      ...this.stats,
+      connected: this.stats.polling ? this.pollSucceeded : this.stats.connected,
+      eventsByType: new Map(this.stats.eventsByType),
+    };
+  }
+
   async start(): Promise<void> {
     this.isRunning = true;
-    this.reconnectDelay = 1000;
+    this.reconnectDelay = this.initialReconnectDelay;
+
+    if (this.mode === "poll") {
+      console.log(`Polling ${this.baseUrl} every ${this.pollIntervalMs / 1000}s`);
+      this.stats.polling = true;
+      await this.poll();
+      return;
+    }
 
-    while (this.isRunning) {
+    for (let attempt = 0; this.isRunning; attempt++) {
+      if (attempt > 0) {
+        this.stats.reconnects++;
+      }
+
+      let failed = false;
+      this.receivedEvent = false;
       try {
         await this.connect();
       } catch (error) {
         if (!this.isRunning) break;
 
         console.error(`SSE connection error:`, error);
-        console.log(`Reconnecting in ${this.reconnectDelay / 1000}s...`);
+        failed = true;
+      }
+      if (!this.isRunning) break;
+
+      if (this.mode === "auto" && !this.receivedEvent) {
+        this.sseFailures++;
+        if (this.sseFailures >= this.pollFallbackAfter && !this.stats.polling) {
+          console.warn(`SSE failed ${this.sseFailures} times in a row, polling every ${this.pollIntervalMs / 1000}s until it recovers`);
+          this.stats.polling = true;
+          this.poll().catch((error) => console.error("Polling failed:", error));
+        }
+      }
 
-        await this.sleep(this.reconnectDelay);
+      console.log(`Reconnecting in ${this.reconnectDelay / 1000}s...`);
+      this.stats.backoffMs = this.reconnectDelay;
+      await this.sleep(this.reconnectDelay);
+      this.stats.backoffMs = 0;
 
-        // Exponential backoff
+      // Exponential backoff while connecting fails
+      if (failed) {
         this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.maxReconnectDelay);
       }
     }
@@ -154,6 +475,7 @@ export class SSEClient {
       headers: {
         ...this.headers,
         Accept: "text/event-stream",
+        ...(this.parser.getLastEventId() && { "Last-Event-ID": this.parser.getLastEventId() }),
       },
       signal: this.abortController.signal,
     });
@@ -167,45 +489,216 @@ export class SSEClient {
     }
 
     console.log("Connected to SSE stream");
-    this.reconnectDelay = 1000; // Reset backoff on successful connection
+    this.reconnectDelay = this.initialReconnectDelay; // Reset backoff on successful connection
+    this.stats.connected = true;
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
+    const { disconnectedAt } = this;
+    this.disconnectedAt = null;
+    for (const handler of this.connectHandlers) {
+      handler(disconnectedAt);
+    }
 
     try {
-      while (this.isRunning) {
-        const { done, value } = await reader.read();
+      await readEventStream(response.body, this.parser, this.heartbeatTimeoutMs);
+      console.log("SSE stream ended");
+    } finally {
+      this.stats.connected = false;
+      this.disconnectedAt = Date.now();
+      // A half-received event must not run into the first one of the next connection
+      this.parser.reset();
+    }
+  }
+
+  private markStreamHealthy(): void {
+    if (this.receivedEvent) {
+      return;
+    }
+    this.receivedEvent = true;
+    this.sseFailures = 0;
+    if (this.stats.polling && this.mode === "auto") {
+      console.log("SSE stream recovered, stopped polling");
+      this.stats.polling = false;
+    }
+  }
+
+  /**
+   * Poll until stopped or, in auto mode, until the event stream recovers. The first successful poll,
+   * and the first one after polls failed, is treated like a reconnect: connect handlers catch up on
+   * session statuses, and only later changes are reported as status events.
+   */
+  private async poll(): Promise<void> {
+    const run = ++this.pollRun;
+    this.pollSucceeded = false;
+    const state: PollState = { statuses: new Map(), questions: new Set(), permissions: new Set() };
+    let synced = false;
+    const active = () => this.isRunning && this.stats.polling && this.pollRun === run;
+
+    while (active()) {
+      let succeeded = false;
+      try {
+        succeeded = await this.pollOnce(state, synced);
+      } catch (error) {
+        console.error("Error polling session changes:", error);
+      }
+      // The stream may have recovered while this poll was running
+      if (!active()) {
+        break;
+      }
 
-        if (done) {
-          console.log("SSE stream ended");
-          break;
+      if (succeeded && !synced) {
+        const { disconnectedAt } = this;
+        this.disconnectedAt = null;
+        for (const handler of this.connectHandlers) {
+          handler(disconnectedAt);
         }
+      } else if (!succeeded && synced) {
+        this.disconnectedAt = Date.now();
+      }
+      synced = succeeded;
+      this.pollSucceeded = succeeded;
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
+      await this.sleep(this.pollIntervalMs);
+    }
+  }
 
-        // Keep the last incomplete line in the buffer
-        buffer = lines.pop() || "";
+  /**
+   * Fetch the state of every project once, reporting what changed since the last poll.
+   * Returns false if anything could not be fetched.
+   */
+  private async pollOnce(state: PollState, reportStatuses: boolean): Promise<boolean> {
+    const projects = await this.fetchProjects();
+    if (!projects) {
+      return false;
+    }
 
-        for (const line of lines) {
-          this.processLine(line);
+    let succeeded = true;
+    const questions = new Set<string>();
+    const permissions = new Set<string>();
+
+    for (const { worktree: directory } of projects) {
+      const statuses = await this.fetchSessionStatuses(directory);
+      if (!statuses) {
+        succeeded = false;
+        continue;
+      }
+
+      // Sessions that are no longer listed went idle
+      for (const [sessionID, known] of state.statuses) {
+        if (known.directory === directory && !(sessionID in statuses)) {
+          state.statuses.delete(sessionID);
+          if (reportStatuses && known.status.type !== "idle") {
+            this.emitSessionStatus(sessionID, { type: "idle" }, directory);
+          }
         }
       }
-    } finally {
-      reader.releaseLock();
+
+      for (const [sessionID, status] of Object.entries(statuses)) {
+        const previous = state.statuses.get(sessionID)?.status;
+        state.statuses.set(sessionID, { status, directory });
+        if (reportStatuses && !isSameStatus(previous, status)) {
+          this.emitSessionStatus(sessionID, status, directory);
+        }
+
+        // Questions are only asked while a session is busy
+        if (status.type !== "idle") {
+          succeeded = (await this.pollQuestions(sessionID, directory, state.questions, questions)) && succeeded;
+        }
+      }
+
+      if (this.pollPermissions) {
+        succeeded = (await this.pollPermissionRequests(directory, state.permissions, permissions)) && succeeded;
+      }
+    }
+
+    if (succeeded) {
+      for (const id of [...state.questions, ...state.permissions]) {
+        if (!questions.has(id) && !permissions.has(id)) {
+          this.emitRequestResolved(id);
+        }
+      }
+      state.questions = questions;
+      state.permissions = permissions;
+    } else {
+      // A request missing from a failed poll may just not have been fetched; keep it until a poll succeeds
+      state.questions = new Set([...state.questions, ...questions]);
+      state.permissions = new Set([...state.permissions, ...permissions]);
     }
+    return succeeded;
   }
 
-  private currentEventData = "";
+  private async pollQuestions(sessionID: string, directory: string, seen: Set<string>, current: Set<string>): Promise<boolean> {
+    const messages = await this.fetchMessages(sessionID, directory, 1);
+    if (!messages) {
+      return false;
+    }
+
+    for (const part of messages.at(-1)?.parts ?? []) {
+      const toolPart = part as ToolPart;
+      if (toolPart.type !== "tool" || toolPart.tool !== "question" || toolPart.state.status !== "running") {
+        continue;
+      }
+      current.add(toolPart.id);
+      if (!seen.has(toolPart.id)) {
+        for (const handler of this.questionToolHandlers) {
+          handler(toolPart, directory);
+        }
+      }
+    }
+    return true;
+  }
+
+  private async pollPermissionRequests(directory: string, seen: Set<string>, current: Set<string>): Promise<boolean> {
+    // Unlike other requests, a missing endpoint is told apart from a failure: it won't start working later
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/permission?${new URLSearchParams({ directory })}`, {
+        headers: this.headers,
+      });
+    } catch (error) {
+      console.error(`Error fetching /permission:`, error);
+      return false;
+    }
 
-  private processLine(line: string): void {
-    if (line.startsWith("data:")) {
-      this.currentEventData += line.slice(5).trim();
-    } else if (line === "" && this.currentEventData) {
-      // Empty line means end of event
-      this.processEvent(this.currentEventData);
-      this.currentEventData = "";
+    if (response.status === 404) {
+      console.warn("Server can't list pending permissions; permission requests are not reported while polling");
+      this.pollPermissions = false;
+      return true;
+    }
+    if (!response.ok) {
+      const text = await response.text();
+      console.error(`Failed to fetch /permission: ${response.status} ${text}`);
+      return false;
+    }
+
+    const pending = (await response.json()) as RawPermissionRequest[];
+
+    for (const raw of pending) {
+      current.add(raw.id);
+      if (seen.has(raw.id)) {
+        continue;
+      }
+      const request = parsePermissionRequest(
+        "permission" in raw
+          ? { type: "permission.asked", properties: raw }
+          : { type: "permission.updated", properties: raw }
+      );
+      for (const handler of this.permissionHandlers) {
+        handler(request, directory);
+      }
+    }
+    return true;
+  }
+
+  private emitRequestResolved(requestID: string): void {
+    for (const handler of this.requestResolvedHandlers) {
+      handler(requestID);
+    }
+  }
+
+  private emitSessionStatus(sessionID: string, status: SessionStatus, directory: string): void {
+    const event: SessionStatusEvent = { type: "session.status", properties: { sessionID, status } };
+    for (const handler of this.eventHandlers) {
+      handler(event, directory);
     }
   }
 
@@ -215,6 +708,9 @@ export class SSEClient {
       const globalEvent = JSON.parse(data) as GlobalEvent;
       const { directory, payload } = globalEvent;
 
+      this.stats.lastEventAt = Date.now();
+      this.stats.eventsByType.set(payload.type, (this.stats.eventsByType.get(payload.type) ?? 0) + 1);
+
       if (payload.type === "session.status") {
         const statusEvent = payload as SessionStatusEvent;
         if (statusEvent.properties.status.type === "idle") {
@@ -227,13 +723,38 @@ export class SSEClient {
         const partEvent = payload as MessagePartUpdatedEvent;
         const part = partEvent.properties.part;
 
-        // Check if this is a question tool call
+        // Check if this is a question tool call, and whether it is still waiting for an answer
         if (part.type === "tool" && (part as ToolPart).tool === "question") {
           const toolPart = part as ToolPart;
-          for (const handler of this.questionToolHandlers) {
-            handler(toolPart.sessionID, toolPart.state, directory);
+          if (toolPart.state.status === "completed" || toolPart.state.status === "error") {
+            this.emitRequestResolved(toolPart.id);
+          } else {
+            for (const handler of this.questionToolHandlers) {
+              handler(toolPart, directory);
+            }
           }
         }
+      } else if (payload.type === "session.error") {
+        const errorEvent = payload as SessionErrorEvent;
+        const { sessionID, error } = errorEvent.properties;
+        if (!sessionID) {
+          console.warn(`OpenCode reported an error outside any session: ${error?.name ?? "unknown"}`);
+          return;
+        }
+        for (const handler of this.sessionErrorHandlers) {
+          handler(sessionID, error, directory);
+        }
+      } else if (payload.type === "permission.updated" || payload.type === "permission.asked") {
+        const request = parsePermissionRequest(payload as PermissionUpdatedEvent | PermissionAskedEvent);
+        for (const handler of this.permissionHandlers) {
+          handler(request, directory);
+        }
+      } else if (payload.type === "permission.replied") {
+        const { permissionID, requestID } = (payload as PermissionRepliedEvent).properties;
+        const id = permissionID ?? requestID;
+        if (id) {
+          this.emitRequestResolved(id);
+        }
       }
     } catch (error) {
       console.error(`Failed to parse SSE event:`, error, data);
@@ -244,3 +765,34 @@ export class SSEClient {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
+
+function toSessionInfo(data: RawSession): SessionInfo {
+  return {
+    id: data.id,
+    parentSessionID: data.parentID,
+    title: data.title || data.id,
+    projectID: data.projectID,
+    updatedAt: data.time?.updated,
+  };
+}
+
+/**
+ * Whether two statuses are the same, ignoring when the next retry is due
+ */
+function isSameStatus(a: SessionStatus | undefined, b: SessionStatus): boolean {
+  if (a?.type === "retry" && b.type === "retry") {
+    return a.attempt === b.attempt;
+  }
+  return a?.type === b.type;
+}
+
+function parsePermissionRequest(event: PermissionUpdatedEvent | PermissionAskedEvent): PermissionRequest {
+  if (event.type === "permission.asked") {
+    const { id, sessionID, permission, patterns } = event.properties;
+    return { id, sessionID, tool: permission, patterns: patterns ?? [] };
+  }
+
+  const { id, sessionID, type, pattern, title } = event.properties;
+  const patterns = pattern === undefined ? [] : Array.isArray(pattern) ? pattern : [pattern];
+  return { id, sessionID, tool: type, patterns, title };
+}
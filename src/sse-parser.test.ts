@@ -0,0 +1,169 @@
+import { describe, expect, test } from "bun:test";
+import { readEventStream, SSEParser, type SSEMessage } from "./sse-parser.ts";
+
+function createParser() {
+  const messages: SSEMessage[] = [];
+  const retries: number[] = [];
+  const parser = new SSEParser({
+    onMessage: (message) => messages.push(message),
+    onRetry: (delayMs) => retries.push(delayMs),
+  });
+  return { parser, messages, retries };
+}
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+describe("SSEParser", () => {
+  test("dispatches an event on a blank line", () => {
+    const { parser, messages } = createParser();
+    parser.feed("data: hello\n");
+    expect(messages).toEqual([]);
+    parser.feed("\n");
+    expect(messages).toEqual([{ type: "message", data: "hello", lastEventId: "" }]);
+  });
+
+  test("splits lines on LF, CR and CRLF", () => {
+    for (const eol of ["\n", "\r", "\r\n"]) {
+      const { parser, messages } = createParser();
+      parser.feed(`data: a${eol}data: b${eol}${eol}data: c${eol}${eol}`);
+      expect(messages.map((m) => m.data)).toEqual(["a\nb", "c"]);
+    }
+  });
+
+  test("treats a CRLF split across chunks as one line ending", () => {
+    const { parser, messages } = createParser();
+    parser.feed("data: a\r");
+    parser.feed("\ndata: b\r");
+    parser.feed("\n\r");
+    parser.feed("\n");
+    expect(messages).toEqual([{ type: "message", data: "a\nb", lastEventId: "" }]);
+  });
+
+  test("a CR at the end of a chunk followed by a CR ends the event", () => {
+    const { parser, messages } = createParser();
+    parser.feed("data: a\r");
+    parser.feed("\r");
+    expect(messages.map((m) => m.data)).toEqual(["a"]);
+  });
+
+  test("buffers lines split across chunks", () => {
+    const { parser, messages } = createParser();
+    for (const char of 'event: session.status\ndata: {"a":1}\n\n') {
+      parser.feed(char);
+    }
+    expect(messages).toEqual([{ type: "session.status", data: '{"a":1}', lastEventId: "" }]);
+  });
+
+  test("strips only a single leading space from values", () => {
+    const { parser, messages } = createParser();
+    parser.feed("data:no space\n\ndata:  two spaces\n\ndata\n\n");
+    expect(messages.map((m) => m.data)).toEqual(["no space", " two spaces", ""]);
+  });
+
+  test("ignores comments, unknown fields and events without data", () => {
+    const { parser, messages } = createParser();
+    parser.feed(": keep-alive\n\nfoo: bar\n\nevent: ping\n\n");
+    expect(messages).toEqual([]);
+  });
+
+  test("resets the event type after each event", () => {
+    const { parser, messages } = createParser();
+    parser.feed("event: custom\ndata: 1\n\ndata: 2\n\n");
+    expect(messages.map((m) => m.type)).toEqual(["custom", "message"]);
+  });
+
+  test("carries the last event ID over to later events", () => {
+    const { parser, messages } = createParser();
+    parser.feed("id: 1\ndata: a\n\ndata: b\n\nid\ndata: c\n\n");
+    expect(messages.map((m) => m.lastEventId)).toEqual(["1", "1", ""]);
+    expect(parser.getLastEventId()).toBe("");
+  });
+
+  test("updates the last event ID even for events without data", () => {
+    const { parser, messages } = createParser();
+    parser.feed("id: 7\n\n");
+    expect(messages).toEqual([]);
+    expect(parser.getLastEventId()).toBe("7");
+  });
+
+  test("ignores IDs containing NULL", () => {
+    const { parser } = createParser();
+    parser.feed("id: 1\n\nid: 2\0\n\n");
+    expect(parser.getLastEventId()).toBe("1");
+  });
+
+  test("reports retry delays made of digits only", () => {
+    const { parser, retries } = createParser();
+    parser.feed("retry: 3000\nretry: 1.5\nretry: -1\nretry: abc\nretry:0\n");
+    expect(retries).toEqual([3000, 0]);
+  });
+
+  test("reset discards a partial event but keeps the last event ID", () => {
+    const { parser, messages } = createParser();
+    parser.feed("id: 1\ndata: a\n\nid: 2\nevent: custom\ndata: partial");
+    parser.reset();
+    parser.feed("data: b\n\n");
+    expect(messages).toEqual([
+      { type: "message", data: "a", lastEventId: "1" },
+      { type: "message", data: "b", lastEventId: "1" },
+    ]);
+    expect(parser.getLastEventId()).toBe("1");
+  });
+
+  test("reset forgets a CR left at the end of a chunk", () => {
+    const { parser, messages } = createParser();
+    parser.feed("data: a\r");
+    parser.reset();
+    parser.feed("\ndata: b\n\n");
+    expect(messages.map((m) => m.data)).toEqual(["b"]);
+  });
+});
+
+describe("readEventStream", () => {
+  test("feeds every chunk and discards an event cut off by the end of the stream", async () => {
+    const { parser, messages } = createParser();
+    await readEventStream(streamOf(["data: a\n", "\ndata: ", "b\n\ndata: cut"]), parser);
+    expect(messages.map((m) => m.data)).toEqual(["a", "b"]);
+  });
+
+  test("decodes multi-byte characters split across chunks", async () => {
+    const { parser, messages } = createParser();
+    const bytes = new TextEncoder().encode("data: héllo 👋\n\n");
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const byte of bytes) {
+          controller.enqueue(new Uint8Array([byte]));
+        }
+        controller.close();
+      },
+    });
+    await readEventStream(body, parser);
+    expect(messages.map((m) => m.data)).toEqual(["héllo 👋"]);
+  });
+
+  test("throws once nothing arrives for the idle timeout", async () => {
+    const { parser, messages } = createParser();
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("data: a\n\n"));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    await expect(readEventStream(body, parser, 50)).rejects.toThrow("SSE stream sent nothing for 0.05s");
+    expect(messages.map((m) => m.data)).toEqual(["a"]);
+    expect(cancelled).toBe(true);
+  });
+});
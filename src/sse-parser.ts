@@ -0,0 +1,181 @@
+/**
+ * Parser for the text/event-stream format, following the EventSource parsing rules of the HTML spec
+ * Lines may end in CRLF, LF or CR, comments and unknown fields are ignored, and an event that is cut
+ * off by the end of the stream is discarded.
+ */
+
+export interface SSEMessage {
+  /** Value of the event: field, "message" when not given */
+  type: string;
+  data: string;
+  /** Last event ID at the time of dispatch, carried over from earlier events when this one has no id: field */
+  lastEventId: string;
+}
+
+export interface SSEParserHandlers {
+  onMessage: (message: SSEMessage) => void;
+  /** Called with the reconnection time from a retry: field, in milliseconds */
+  onRetry?: (delayMs: number) => void;
+}
+
+export class SSEParser {
+  private readonly handlers: SSEParserHandlers;
+  private buffer = "";
+  // Set when a chunk ended in CR, so a LF at the start of the next one belongs to the same line ending
+  private pendingCR = false;
+  private eventType = "";
+  private data = "";
+  private eventIdBuffer = "";
+  private lastEventId = "";
+
+  constructor(handlers: SSEParserHandlers) {
+    this.handlers = handlers;
+  }
+
+  /** ID to send as Last-Event-ID when reconnecting, kept across reset() */
+  getLastEventId(): string {
+    return this.lastEventId;
+  }
+
+  /**
+   * Parse the next decoded chunk of the stream, dispatching every event it completes
+   */
+  feed(chunk: string): void {
+    if (this.pendingCR && chunk.startsWith("\n")) {
+      chunk = chunk.slice(1);
+    }
+    this.pendingCR = false;
+    this.buffer += chunk;
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== "\r" && char !== "\n") {
+        continue;
+      }
+
+      this.processLine(this.buffer.slice(start, i));
+      if (char === "\r") {
+        if (i + 1 === this.buffer.length) {
+          this.pendingCR = true;
+        } else if (this.buffer[i + 1] === "\n") {
+          i++;
+        }
+      }
+      start = i + 1;
+    }
+
+    this.buffer = this.buffer.slice(start);
+  }
+
+  /**
+   * Discard a partially received line or event, e.g. when the connection drops.
+   * The last event ID is kept so the next connection can resume from it.
+   */
+  reset(): void {
+    this.buffer = "";
+    this.pendingCR = false;
+    this.eventType = "";
+    this.data = "";
+    this.eventIdBuffer = this.lastEventId;
+  }
+
+  private processLine(line: string): void {
+    if (line === "") {
+      this.dispatch();
+      return;
+    }
+
+    if (line.startsWith(":")) {
+      // Comment, often sent as a keep-alive
+      return;
+    }
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      case "data":
+        this.data += value + "\n";
+        break;
+      case "id":
+        // IDs containing NULL are ignored
+        if (!value.includes("\0")) {
+          this.eventIdBuffer = value;
+        }
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) {
+          this.handlers.onRetry?.(Number(value));
+        }
+        break;
+    }
+  }
+
+  private dispatch(): void {
+    this.lastEventId = this.eventIdBuffer;
+
+    const { eventType, data } = this;
+    this.eventType = "";
+    this.data = "";
+    if (data === "") {
+      return;
+    }
+
+    this.handlers.onMessage({
+      type: eventType || "message",
+      data: data.slice(0, -1),
+      lastEventId: this.lastEventId,
+    });
+  }
+}
+
+/**
+ * Feed a response body to a parser until it ends. If idleTimeoutMs is set and nothing at all arrives
+ * for that long, not even a comment, the stream is cancelled and an error thrown so the caller reconnects.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  parser: SSEParser,
+  idleTimeoutMs = 0
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let timer: Timer | undefined;
+
+  try {
+    while (true) {
+      const read = reader.read();
+      const result =
+        idleTimeoutMs > 0
+          ? await Promise.race([
+              read,
+              new Promise<null>((resolve) => {
+                timer = setTimeout(() => resolve(null), idleTimeoutMs);
+              }),
+            ])
+          : await read;
+      clearTimeout(timer);
+
+      if (result === null) {
+        await reader.cancel().catch(() => {});
+        throw new Error(`SSE stream sent nothing for ${idleTimeoutMs / 1000}s`);
+      }
+      if (result.done) {
+        return;
+      }
+
+      parser.feed(decoder.decode(result.value, { stream: true }));
+    }
+  } finally {
+    clearTimeout(timer);
+    reader.releaseLock();
+  }
+}
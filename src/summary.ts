@@ -0,0 +1,110 @@
+/**
+ * Completion summaries for idle notifications
+ * Describes the session's last turn: everything since the most recent user message
+ */
+
+import type { SSEClient, SessionMessage } from "./sse-client.ts";
+import type { NotificationSummary } from "./providers/index.ts";
+import { truncate } from "./providers/format.ts";
+
+// Enough messages to cover a typical turn; longer turns are summarized from their latest part
+const MESSAGE_LIMIT = 100;
+
+const MAX_EXCERPT_LENGTH = 500;
+
+// The idle notification waits for the summary, so a slow server must not hold it up for long
+const SUMMARY_TIMEOUT_MS = 10 * 1000;
+
+export interface CompletionSummary {
+  summary: NotificationSummary;
+  /** Time from the user's message until the last assistant message completed */
+  busyMs?: number;
+}
+
+/**
+ * Fetch and summarize a session's last turn, or return null when OpenCode can't provide it in time
+ */
+export async function fetchCompletionSummary(
+  client: SSEClient,
+  sessionId: string,
+  directory: string
+): Promise<CompletionSummary | null> {
+  let timer: Timer | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => {
+      console.warn(`Summary for session ${sessionId} took longer than ${SUMMARY_TIMEOUT_MS / 1000}s, sending without it`);
+      resolve(null);
+    }, SUMMARY_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([summarize(client, sessionId, directory), timeout]);
+  } catch (error) {
+    // Messages in an unexpected shape
+    console.error(`Failed to summarize session ${sessionId}:`, error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function summarize(client: SSEClient, sessionId: string, directory: string): Promise<CompletionSummary | null> {
+  const messages = await client.fetchMessages(sessionId, directory, MESSAGE_LIMIT);
+  if (!messages || messages.length === 0) {
+    return null;
+  }
+
+  const lastUserIndex = messages.findLastIndex((m) => m.info.role === "user");
+  const userMessage = messages[lastUserIndex];
+  const turn = messages.slice(lastUserIndex + 1);
+
+  let input = 0;
+  let output = 0;
+  let cost = 0;
+  let completedAt: number | undefined;
+  for (const { info } of turn) {
+    if (info.role === "assistant") {
+      // Older servers leave some of these out
+      input += (info.tokens?.input ?? 0) + (info.tokens?.cache?.read ?? 0) + (info.tokens?.cache?.write ?? 0);
+      output += (info.tokens?.output ?? 0) + (info.tokens?.reasoning ?? 0);
+      cost += info.cost ?? 0;
+      completedAt = info.time?.completed ?? completedAt;
+    }
+  }
+
+  const hasAssistant = turn.some((m) => m.info.role === "assistant");
+  const diff = userMessage ? await client.fetchDiff(sessionId, directory, userMessage.info.id) : null;
+
+  return {
+    summary: {
+      excerpt: getExcerpt(turn),
+      tokens: hasAssistant ? { input, output } : undefined,
+      cost: hasAssistant ? cost : undefined,
+      filesChanged: diff?.length,
+    },
+    busyMs: userMessage?.info.time?.created && completedAt ? completedAt - userMessage.info.time.created : undefined,
+  };
+}
+
+/**
+ * Text of the last assistant message that has any, cut to a readable length
+ */
+function getExcerpt(messages: SessionMessage[]): string | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i]!;
+    if (message.info.role !== "assistant") {
+      continue;
+    }
+
+    const text = (message.parts ?? [])
+      .filter((part) => part.type === "text" && !part.synthetic && part.text)
+      .map((part) => part.text!.trim())
+      .join("\n\n")
+      .trim();
+
+    if (text) {
+      return truncate(text, MAX_EXCERPT_LENGTH);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,116 @@
+/**
+ * Watchdogs for sessions stuck in a retry loop or busy for too long
+ * An episode starts when a session leaves idle and ends when it goes idle again;
+ * each watchdog alerts at most once per episode.
+ */
+
+import type { WatchdogConfig } from "./config.ts";
+import type { SessionStatus } from "./sse-client.ts";
+
+export type WatchdogAlert =
+  | { type: "retry"; sessionID: string; directory: string; busyMs: number; attempt: number; message: string }
+  | { type: "busy"; sessionID: string; directory: string; busyMs: number };
+
+type AlertHandler = (alert: WatchdogAlert) => void;
+
+interface Episode {
+  directory: string;
+  busySince: number;
+  /** When the session's status was last reported */
+  lastUpdate: number;
+  retryAlerted: boolean;
+  busyTimer: Timer | null;
+}
+
+export class SessionWatchdog {
+  private readonly config: WatchdogConfig;
+  private readonly onAlert: AlertHandler;
+  private readonly episodes = new Map<string, Episode>();
+
+  constructor(config: WatchdogConfig, onAlert: AlertHandler) {
+    this.config = config;
+    this.onAlert = onAlert;
+  }
+
+  /**
+   * Track a status change for a session
+   */
+  update(sessionID: string, status: SessionStatus, directory: string): void {
+    if (status.type === "idle") {
+      this.end(sessionID);
+      return;
+    }
+
+    const now = Date.now();
+    let episode = this.episodes.get(sessionID);
+    if (!episode) {
+      episode = { directory, busySince: now, lastUpdate: now, retryAlerted: false, busyTimer: null };
+      this.episodes.set(sessionID, episode);
+      this.startBusyTimer(sessionID, episode);
+    }
+    episode.lastUpdate = now;
+
+    const { maxRetryAttempts } = this.config;
+    if (
+      status.type === "retry" &&
+      maxRetryAttempts !== undefined &&
+      status.attempt > maxRetryAttempts &&
+      !episode.retryAlerted
+    ) {
+      episode.retryAlerted = true;
+      this.onAlert({
+        type: "retry",
+        sessionID,
+        directory: episode.directory,
+        busyMs: now - episode.busySince,
+        attempt: status.attempt,
+        message: status.message,
+      });
+    }
+  }
+
+  /**
+   * Forget a session, e.g. once it goes idle or is no longer tracked
+   */
+  end(sessionID: string): void {
+    const episode = this.episodes.get(sessionID);
+    if (episode?.busyTimer) {
+      clearTimeout(episode.busyTimer);
+    }
+    this.episodes.delete(sessionID);
+  }
+
+  /**
+   * Forget sessions with no status reported for maxAgeMs, which were deleted or whose idle event was
+   * lost. Episodes whose busy alert is still due are kept until it fires.
+   */
+  prune(maxAgeMs: number): number {
+    const now = Date.now();
+    let pruned = 0;
+    for (const [sessionID, episode] of this.episodes) {
+      if (!episode.busyTimer && now - episode.lastUpdate > maxAgeMs) {
+        this.episodes.delete(sessionID);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  stop(): void {
+    for (const sessionID of this.episodes.keys()) {
+      this.end(sessionID);
+    }
+  }
+
+  private startBusyTimer(sessionID: string, episode: Episode): void {
+    const { maxBusyMs } = this.config;
+    if (maxBusyMs === undefined) {
+      return;
+    }
+
+    episode.busyTimer = setTimeout(() => {
+      episode.busyTimer = null;
+      this.onAlert({ type: "busy", sessionID, directory: episode.directory, busyMs: Date.now() - episode.busySince });
+    }, maxBusyMs);
+  }
+}